@@ -2,5 +2,12 @@ export default () => ({
   CORS_ORIGIN: process.env.CORS_ORIGIN || 'http://localhost:3001',
   CORS_CREDENTIALS: process.env.CORS_CREDENTIALS === 'true' || true,
   PORT: parseInt(process.env.PORT, 10) || 3000,
-  DATABASE_URL: process.env.DATABASE_URL
+  DATABASE_URL: process.env.DATABASE_URL,
+  // 동점자 순위 정책: competition | dense | createdAt
+  RANK_TIE_POLICY: process.env.RANK_TIE_POLICY || 'competition',
+  // 휴지통 보관 기간(일): 지나면 스케줄러가 영구 삭제함
+  TRASH_RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS, 10) || 30,
+  // 레벨-경험치 곡선 파일 경로(.json 또는 .csv, 실행 디렉터리 기준)
+  LEVEL_EXP_CURVE_PATH:
+    process.env.LEVEL_EXP_CURVE_PATH || 'scripts/fixtures/level-exp.json',
 });
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- CreateIndex
+-- 랭킹 정렬 (level DESC, exp DESC NULLS LAST, userId ASC) 과 동일한 순서로 생성하여
+-- 키셋 페이지네이션이 인덱스 스캔만으로 처리되도록 함
+CREATE INDEX "User_level_exp_userId_idx" ON "User"("level" DESC, "exp" DESC NULLS LAST, "userId");
@@ -0,0 +1,6 @@
+-- CreateIndex
+-- 직업별 랭킹 조회 시 직업 조건과 랭킹 정렬을 함께 처리하기 위한 인덱스
+CREATE INDEX "User_job_level_exp_userId_idx" ON "User"("job", "level" DESC, "exp" DESC NULLS LAST, "userId");
+
+-- CreateIndex
+CREATE INDEX "User_jobCode_level_exp_userId_idx" ON "User"("jobCode", "level" DESC, "exp" DESC NULLS LAST, "userId");
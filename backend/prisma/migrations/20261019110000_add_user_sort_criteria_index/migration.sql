@@ -0,0 +1,6 @@
+-- CreateIndex
+-- 메소, 플레이 타임 기준 랭킹 정렬 (값 DESC NULLS LAST, userId ASC) 용 인덱스
+CREATE INDEX "User_meso_userId_idx" ON "User"("meso" DESC NULLS LAST, "userId");
+
+-- CreateIndex
+CREATE INDEX "User_playTime_userId_idx" ON "User"("playTime" DESC NULLS LAST, "userId");
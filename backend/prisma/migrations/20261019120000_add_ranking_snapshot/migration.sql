@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "RankingSnapshot" (
+    "id" TEXT NOT NULL,
+    "snapshotDate" DATE NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "level" INTEGER NOT NULL,
+    "exp" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RankingSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RankingSnapshot_userId_snapshotDate_idx" ON "RankingSnapshot"("userId", "snapshotDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingSnapshot_snapshotDate_userId_key" ON "RankingSnapshot"("snapshotDate", "userId");
+
+-- AddForeignKey
+ALTER TABLE "RankingSnapshot" ADD CONSTRAINT "RankingSnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
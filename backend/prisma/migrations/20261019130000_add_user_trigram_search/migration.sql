@@ -0,0 +1,8 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "User_userId_trgm_idx" ON "User" USING GIN ("userId" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "User_nickname_trgm_idx" ON "User" USING GIN ("nickname" gin_trgm_ops);
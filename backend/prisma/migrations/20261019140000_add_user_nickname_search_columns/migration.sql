@@ -0,0 +1,10 @@
+-- AlterTable
+-- 기존 행은 scripts/backfill-nickname-search.ts 로 값을 채움
+ALTER TABLE "User" ADD COLUMN     "nicknameChosung" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "nicknameJamo" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX "User_nicknameJamo_trgm_idx" ON "User" USING GIN ("nicknameJamo" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "User_nicknameChosung_trgm_idx" ON "User" USING GIN ("nicknameChosung" gin_trgm_ops);
@@ -0,0 +1,11 @@
+-- CreateIndex
+-- 자동완성(/users/suggest)용 대소문자 무시 접두 검색 인덱스
+-- text_pattern_ops로 바이트 순서 범위 탐색(~>=~, ~<~)을 지원하고,
+-- 응답에 필요한 컬럼을 INCLUDE하여 힙 접근 없이 index-only scan으로 처리함
+-- (표현식 인덱스는 Prisma 스키마로 표현할 수 없어 마이그레이션에서만 관리)
+CREATE INDEX "User_userId_lower_prefix_idx" ON "User"(lower("userId") text_pattern_ops)
+  INCLUDE ("userId", "nickname", "level", "job");
+
+-- CreateIndex
+CREATE INDEX "User_nickname_lower_prefix_idx" ON "User"(lower("nickname") text_pattern_ops)
+  INCLUDE ("userId", "nickname", "level", "job");
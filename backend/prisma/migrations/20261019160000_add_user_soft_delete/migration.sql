@@ -0,0 +1,20 @@
+-- AlterTable
+-- 소프트 삭제: deletedAt이 설정된 유저는 휴지통에 있으며 랭킹/검색에서 제외됨
+ALTER TABLE "User" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_deletedAt_idx" ON "User"("deletedAt");
+
+-- RecreateIndex
+-- 자동완성 접두 인덱스를 삭제되지 않은 유저만 담는 부분 인덱스로 다시 생성하여
+-- "deletedAt" IS NULL 조건을 붙여도 index-only scan이 유지되도록 함
+DROP INDEX "User_userId_lower_prefix_idx";
+CREATE INDEX "User_userId_lower_prefix_idx" ON "User"(lower("userId") text_pattern_ops)
+  INCLUDE ("userId", "nickname", "level", "job")
+  WHERE "deletedAt" IS NULL;
+
+-- RecreateIndex
+DROP INDEX "User_nickname_lower_prefix_idx";
+CREATE INDEX "User_nickname_lower_prefix_idx" ON "User"(lower("nickname") text_pattern_ops)
+  INCLUDE ("userId", "nickname", "level", "job")
+  WHERE "deletedAt" IS NULL;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "NicknameHistory" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "nickname" TEXT NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NicknameHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NicknameHistory_userId_changedAt_idx" ON "NicknameHistory"("userId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "NicknameHistory_nickname_trgm_idx" ON "NicknameHistory" USING GIN ("nickname" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "NicknameHistory" ADD CONSTRAINT "NicknameHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
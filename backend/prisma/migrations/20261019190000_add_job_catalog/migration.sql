@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "Job" (
+    "code" INTEGER NOT NULL,
+    "nameKo" TEXT NOT NULL,
+    "nameEn" TEXT NOT NULL,
+    "branch" INTEGER NOT NULL,
+    "tier" INTEGER NOT NULL,
+
+    CONSTRAINT "Job_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Job_nameKo_key" ON "Job"("nameKo");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Job_nameEn_key" ON "Job"("nameEn");
+
+-- CreateIndex
+CREATE INDEX "Job_branch_tier_idx" ON "Job"("branch", "tier");
+
+-- AddForeignKey
+-- 기존 유저에는 직업 목록에 없는 jobCode가 있을 수 있으므로 NOT VALID로 생성하여
+-- 새로 쓰는 행만 검사함 (scripts/seed-jobs.ts가 직업 목록을 적재한 뒤 맞지 않는 행이 없으면 VALIDATE함)
+ALTER TABLE "User" ADD CONSTRAINT "User_jobCode_fkey" FOREIGN KEY ("jobCode") REFERENCES "Job"("code") ON DELETE RESTRICT ON UPDATE CASCADE NOT VALID;
@@ -0,0 +1,12 @@
+-- AlterTable
+-- meso와 exp는 INTEGER 최댓값(약 21억)을 넘을 수 있으므로 BIGINT로 넓힘
+-- INTEGER → BIGINT는 값 손실 없이 변환되며, 이 컬럼을 포함한 인덱스는 Postgres가 함께 다시 만듦
+ALTER TABLE "User" ALTER COLUMN "meso" SET DATA TYPE BIGINT,
+ALTER COLUMN "exp" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "RankingSnapshot" ALTER COLUMN "exp" SET DATA TYPE BIGINT;
+
+-- AlterTable
+ALTER TABLE "UserProgress" ALTER COLUMN "exp" SET DATA TYPE BIGINT,
+ALTER COLUMN "meso" SET DATA TYPE BIGINT;
@@ -0,0 +1,63 @@
+import { PrismaClient } from '@prisma/client';
+import { buildNicknameSearchFields } from '../src/users/utils/hangul';
+
+/**
+ * 닉네임 검색 컬럼 백필 스크립트
+ *
+ * @description
+ * nicknameJamo, nicknameChosung 컬럼이 추가되기 전에 저장된 유저들의
+ * 검색용 정규화 컬럼을 닉네임으로부터 다시 계산하여 채움.
+ * 이미 값이 채워진 행도 다시 계산하므로 여러 번 실행해도 안전함.
+ * 원시 UPDATE로 정규화 컬럼만 갱신하므로 updatedAt(@updatedAt)과 ETag는 바뀌지 않음.
+ *
+ * **실행:** `npx ts-node scripts/backfill-nickname-search.ts`
+ */
+
+const prisma = new PrismaClient();
+
+// 한 번에 처리할 유저 수 (메모리 사용량과 트랜잭션 크기 제한)
+const BATCH_SIZE = 500;
+
+async function backfillNicknameSearch() {
+  try {
+    let cursor: string | undefined;
+    let updatedCount = 0;
+
+    // id 기준 커서로 전체 유저를 배치 단위로 순회
+    for (;;) {
+      const users = await prisma.user.findMany({
+        select: { id: true, nickname: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+      if (users.length === 0) break;
+
+      await prisma.$transaction(
+        users.map((user) => {
+          const { nicknameJamo, nicknameChosung } = buildNicknameSearchFields(
+            user.nickname,
+          );
+          return prisma.$executeRaw`
+            UPDATE "User"
+            SET "nicknameJamo" = ${nicknameJamo}, "nicknameChosung" = ${nicknameChosung}
+            WHERE "id" = ${user.id}
+          `;
+        }),
+      );
+
+      updatedCount += users.length;
+      cursor = users[users.length - 1].id;
+      console.log(`${updatedCount}명의 닉네임 검색 컬럼을 갱신했습니다.`);
+    }
+
+    console.log('닉네임 검색 컬럼 백필이 완료되었습니다.');
+  } catch (error) {
+    console.error('닉네임 검색 컬럼 백필 중 오류가 발생했습니다:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillNicknameSearch();
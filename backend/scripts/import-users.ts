@@ -3,6 +3,11 @@
     import { PrismaClient } from "@prisma/client";
     import { existsSync } from "fs";
     import { resolve, join } from "path";
+    import { buildNicknameSearchFields } from "../src/users/utils/hangul";
+    import { recordNicknameChange } from "../src/users/utils/nickname-history";
+    import { buildUserProgressEntry, recordUserProgress } from "../src/users/utils/user-progress";
+    import { checkJobPair, createJobLookup } from "../src/jobs/utils/job-catalog";
+    import { MAX_BIGINT, parseBigInt } from "../src/common/utils/bigint";
     
     /**
      * 유저 데이터 암포트 스크립트
@@ -25,7 +30,12 @@
      * 1. **파일 유효성 검사:** Excel 파일의 존재 및 접근성 확인.
      * 2. **데이터 추출:** Excel 데이터를 구조화된 JSON 형식으로 변환.
      * 3. **데이터 변환:** 데이터 유형 변환 및 null 값 처리.
+     *    숫자 값이 정수가 아니거나 컬럼 범위(meso, exp는 BIGINT, 나머지는 INT)를 벗어나면 해당 행을 건너뜀.
+     *    job/jobCode는 Job 테이블의 직업 목록과 대조하여, 목록에 없거나 jobCode가 가리키는 직업과 job이 다르면
+     *    값을 고치지 않고 해당 행을 건너뜀 (직업 목록은 scripts/seed-jobs.ts로 먼저 적재해야 함).
      * 4. **데이터베이스 통합:** Prisma ORM을 사용하여 데이터를 데이터베이스에 일괄 삽입.
+     *    이미 있는 userId는 갱신하며, 닉네임이 바뀌었으면 NicknameHistory에 이전 닉네임을 기록.
+     *    레벨, 경험치, 메소, 플레이 타임이 바뀌었거나 새로 생성된 유저는 UserProgress에 진행 이력을 기록.
      * 
      * **성능 고려사항:**
      * - 신뢰성을 위해 동기식 파일 읽기를 사용합니다.
@@ -40,6 +50,9 @@
      */
     
     const prisma = new PrismaClient();
+
+    // level, jobCode, playTime 컬럼(INT)의 최댓값
+    const MAX_INT = 2147483647n;
     
     /**
      * Excel 파일에서 PostgreSQL 데이터베이스로 유저를 가져옴.
@@ -67,6 +80,13 @@
           throw new Error("Excel 파일에 시트가 없습니다.");
         }
         const worksheet = workbook.Sheets[sheetName];
+
+        // User.jobCode는 직업 목록을 참조하므로, 목록이 없으면 유저를 저장하기 전에 중단
+        const jobs = await prisma.job.findMany();
+        if (jobs.length === 0) {
+          throw new Error("직업 목록이 비어 있습니다. scripts/seed-jobs.ts를 먼저 실행하세요.");
+        }
+        const jobLookup = createJobLookup(jobs);
     
         // 3. 데이터 구조 정의 및 변환
         // 시트 데이터를 타입이 지정된 JSON 구조로 변환
@@ -94,39 +114,87 @@
           }
     
           /**
-           * 값을 숫자로 변환.
+           * 값을 정수로 변환.
            * 다양한 입력 형식을 처리:
-           * - 문자열 숫자에서 쉼표 제거 (예: "1,000" -> 1000)
-           * - 문자열 숫자를 정수로 변환
-           * - 유효하지 않거나 빈 값인 경우 null 반환
+           * - 문자열 숫자에서 쉼표 제거 (예: "1,000" -> 1000n)
+           * - 빈 값인 경우 null 반환
+           * - 정수가 아니거나 0 ~ max 범위를 벗어나면 undefined 반환 (잘린 값이 저장되지 않도록 행을 건너뜀)
+           * - 2^53을 넘는 숫자 셀은 이미 정밀도를 잃었으므로 거부 (큰 값은 텍스트 셀로 입력해야 함)
            * 
            * @param {string | number | undefined} value - 변환할 값.
-           * @returns {number | null} - 변환된 숫자 또는 유효하지 않은 경우 null.
+           * @param {bigint} max - 컬럼에 저장할 수 있는 최댓값.
+           * @returns {bigint | null | undefined} - 변환된 정수, 빈 값이면 null, 유효하지 않으면 undefined.
            */
-          const parseNumber = (value: string | number | undefined): number | null => {
-            if (value === undefined || value === '') return null;
-            if (typeof value === 'string') {
-              const cleanValue = value.replace(/,/g, '');
-              const parsed = parseInt(cleanValue, 10);
-              return isNaN(parsed) ? null : parsed;
-            }
-            const num = Number(value);
-            return isNaN(num) ? null : num;
+          const parseInteger = (value: string | number | undefined, max: bigint): bigint | null | undefined => {
+            if (value === undefined || value === "") return null;
+            const parsed = parseBigInt(typeof value === "string" ? value.replace(/,/g, "") : value);
+            return parsed === null || parsed < 0n || parsed > max ? undefined : parsed;
+          };
+          const toInt = (value: bigint | null | undefined): number | null => (value == null ? null : Number(value));
+
+          const values = {
+            level: parseInteger(row.level, MAX_INT),
+            jobCode: parseInteger(row.jobCode, MAX_INT),
+            meso: parseInteger(row.meso, MAX_BIGINT),
+            playTime: parseInteger(row.playTime, MAX_INT),
+            exp: parseInteger(row.exp, MAX_BIGINT),
           };
+          const invalidFields = Object.entries(values)
+            .filter(([, value]) => value === undefined)
+            .map(([field]) => field);
+          if (invalidFields.length > 0) {
+            console.warn(`정수가 아니거나 범위를 벗어난 값이 있어 행을 건너뜁니다 (${row.userId}): ${invalidFields.join(", ")}`);
+            continue;
+          }
     
+          // 직업 목록과 대조하여 job/jobCode를 검사 (한쪽만 있으면 나머지를 채우고, 둘이 어긋난 행은 고치지 않고 건너뜀)
+          const jobPair = checkJobPair(jobLookup, row.job || null, toInt(values.jobCode));
+          const { job, jobCode } = jobPair;
+          if (jobPair.status !== "valid") {
+            console.warn(
+              `직업 목록과 맞지 않아 행을 건너뜁니다 (${row.userId}): ${job} / ${jobCode}`,
+              jobPair.expectedJob ? `(jobCode ${jobCode}는 ${jobPair.expectedJob})` : `(${jobPair.status})`,
+            );
+            continue;
+          }
+
           // 적절한 타입 변환을 통해 데이터베이스에 데이터 삽입
-          await prisma.user.create({
-            data: {
-              userId: row.userId,
-              nickname: row.nickname,
-              level: parseNumber(row.level) || 1, // 기본값 1로 유효한 레벨 보장
-              job: row.job || null,
-              jobCode: parseNumber(row.jobCode),
-              meso: parseNumber(row.meso),
-              playTime: parseNumber(row.playTime),
-              exp: parseNumber(row.exp),
-              createdAt: row.created_at ? new Date(row.created_at) : new Date()
-            },
+          const data = {
+            nickname: row.nickname,
+            ...buildNicknameSearchFields(row.nickname), // 초성/자모 검색 컬럼 동기화
+            level: toInt(values.level) || 1, // 기본값 1로 유효한 레벨 보장
+            job,
+            jobCode,
+            meso: values.meso ?? null,
+            playTime: toInt(values.playTime),
+            exp: values.exp ?? null,
+          };
+
+          // 이미 있는 유저는 갱신하고, 닉네임이나 진행 값이 바뀌었으면 이력에 기록
+          const existingUser = await prisma.user.findUnique({
+            where: { userId: row.userId },
+            select: { nickname: true, level: true, exp: true, meso: true, playTime: true },
+          });
+
+          if (existingUser) {
+            const { nickname, ...previous } = existingUser;
+            await prisma.$transaction(async (tx) => {
+              await tx.user.update({ where: { userId: row.userId }, data });
+              await recordNicknameChange(tx, row.userId, nickname, row.nickname);
+              await recordUserProgress(tx, [buildUserProgressEntry(row.userId, previous, data)]);
+            });
+            continue;
+          }
+
+          await prisma.$transaction(async (tx) => {
+            await tx.user.create({
+              data: {
+                userId: row.userId,
+                ...data,
+                createdAt: row.created_at ? new Date(row.created_at) : new Date()
+              },
+            });
+            await recordUserProgress(tx, [buildUserProgressEntry(row.userId, null, data)]);
           });
         }
     
@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { JobCatalogEntry } from '../src/jobs/utils/job-catalog';
+
+/**
+ * 직업 목록 적재 스크립트
+ *
+ * @description
+ * scripts/fixtures/jobs.json의 직업 목록을 Job 테이블에 적재함.
+ * 직업 ID(code) 기준으로 upsert하므로 여러 번 실행해도 안전하며, 픽스처를 고친 뒤 다시 실행하면 갱신됨.
+ *
+ * User(jobCode) → Job(code) 외래 키는 기존 행을 검사하지 않도록 NOT VALID로 생성되어 있음.
+ * 적재 후 직업 목록에 없는 jobCode를 가진 유저가 없으면 외래 키를 VALIDATE함.
+ * 직업 목록과 맞지 않는 job/jobCode 조합은 고치지 않고 출력만 하므로, 원본 데이터를 확인한 뒤 직접 수정해야 함.
+ *
+ * **실행:** `npx ts-node scripts/seed-jobs.ts` (유저 임포트보다 먼저 실행)
+ */
+
+const prisma = new PrismaClient();
+
+const FIXTURE_PATH = join(__dirname, 'fixtures', 'jobs.json');
+
+async function seedJobs() {
+  try {
+    const jobs = JSON.parse(
+      readFileSync(FIXTURE_PATH, 'utf8'),
+    ) as JobCatalogEntry[];
+
+    await prisma.$transaction(
+      jobs.map((job) =>
+        prisma.job.upsert({
+          where: { code: job.code },
+          create: job,
+          update: job,
+        }),
+      ),
+    );
+    console.log(`${jobs.length}개의 직업을 적재했습니다.`);
+
+    // 직업 목록에 없는 jobCode(expectedJob이 null) 또는 jobCode가 가리키는 직업과 다른 job
+    const mismatches = await prisma.$queryRaw<
+      {
+        job: string | null;
+        jobCode: number;
+        expectedJob: string | null;
+        userCount: number;
+      }[]
+    >`
+      SELECT u."job", u."jobCode", j."nameKo" AS "expectedJob", COUNT(*)::int AS "userCount"
+      FROM "User" u
+      LEFT JOIN "Job" j ON j."code" = u."jobCode"
+      WHERE u."jobCode" IS NOT NULL
+        AND (j."code" IS NULL OR (u."job" IS NOT NULL AND u."job" <> j."nameKo"))
+      GROUP BY u."job", u."jobCode", j."nameKo"
+      ORDER BY "userCount" DESC
+    `;
+
+    if (mismatches.length > 0) {
+      console.warn('직업 목록과 맞지 않는 유저가 있습니다:');
+      for (const { job, jobCode, expectedJob, userCount } of mismatches) {
+        console.warn(
+          `  ${job ?? '-'} / ${jobCode} (${expectedJob ?? '목록에 없는 jobCode'}): ${userCount}명`,
+        );
+      }
+    }
+
+    // 외래 키는 jobCode만 검사하므로, 목록에 없는 jobCode가 없으면 검증함
+    if (mismatches.some(({ expectedJob }) => expectedJob === null)) {
+      console.warn(
+        '직업 목록에 없는 jobCode가 있어 외래 키를 검증하지 않았습니다.',
+      );
+      return;
+    }
+
+    await prisma.$executeRaw`ALTER TABLE "User" VALIDATE CONSTRAINT "User_jobCode_fkey"`;
+    console.log('User(jobCode) 외래 키를 검증했습니다.');
+  } catch (error) {
+    console.error('직업 목록 적재 중 오류가 발생했습니다:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+seedJobs();
@@ -2,8 +2,16 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { UsersModule } from './users/users.module';
+import { RankingsModule } from './rankings/rankings.module';
+import { JobsModule } from './jobs/jobs.module';
+import { PrismaModule } from './prisma/prisma.module';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+import { APP_FILTER, APP_INTERCEPTOR, APP_PIPE } from '@nestjs/core';
 import configuration from '../config/configuration';
+import { ApiExceptionFilter } from './common/filters/api-exception.filter';
+import { createValidationPipe } from './common/pipes/validation.pipe';
+import { BigIntSerializerInterceptor } from './common/interceptors/bigint-serializer.interceptor';
 
 @Module({
   imports: [
@@ -11,9 +19,20 @@ import configuration from '../config/configuration';
       load: [configuration],
       isGlobal: true,
     }),
-    UsersModule
+    ScheduleModule.forRoot(),
+    PrismaModule,
+    UsersModule,
+    RankingsModule,
+    JobsModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    // 모든 요청을 DTO로 검증하고, 모든 에러를 같은 형식(ErrorEnvelope)으로 응답
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+    // BIGINT 컬럼(meso, exp)은 JSON 숫자의 정밀도를 넘을 수 있으므로 문자열로 응답
+    { provide: APP_INTERCEPTOR, useClass: BigIntSerializerInterceptor },
+  ],
 })
 export class AppModule {}
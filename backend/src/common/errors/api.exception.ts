@@ -0,0 +1,35 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ErrorCode } from './error-code';
+
+/**
+ * 모든 에러 응답이 따르는 본문 형식
+ *
+ * @remarks
+ * details는 에러 종류별 부가 정보(검증 실패 필드, 질의어 에러 위치, 충돌한 현재 레코드 등)이며 없으면 null
+ */
+export interface ErrorEnvelope {
+  statusCode: number;
+  code: string;
+  message: string;
+  details: Record<string, unknown> | null;
+}
+
+/**
+ * 기계가 읽을 수 있는 에러 코드를 포함한 HTTP 예외
+ *
+ * @example
+ * throw new ApiException(HttpStatus.NOT_FOUND, 'USER_NOT_FOUND', 'User not found');
+ */
+export class ApiException extends HttpException {
+  constructor(
+    status: HttpStatus,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> | null = null,
+  ) {
+    super(
+      { statusCode: status, code, message, details } satisfies ErrorEnvelope,
+      status,
+    );
+  }
+}
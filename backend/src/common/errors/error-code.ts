@@ -0,0 +1,31 @@
+/**
+ * 에러 응답의 code 값
+ *
+ * @remarks
+ * 클라이언트가 메시지 문구 대신 분기에 사용하는 식별자로, 한 번 공개한 값은 바꾸지 않음
+ * ApiException으로 지정하지 않은 에러는 HTTP 상태 이름(BAD_REQUEST, NOT_FOUND 등)을 code로 사용함
+ */
+export type ErrorCode =
+  // 요청 형식
+  | 'VALIDATION_FAILED'
+  | 'INVALID_QUERY'
+  | 'INVALID_CURSOR'
+  | 'INVALID_PRECONDITION'
+  | 'PAGE_OUT_OF_RANGE'
+  | 'BULK_LIMIT_EXCEEDED'
+  // 유저 상태
+  | 'USER_NOT_FOUND'
+  | 'USER_ALREADY_EXISTS'
+  | 'USER_IN_TRASH'
+  | 'USER_NOT_IN_TRASH'
+  | 'USER_VERSION_CONFLICT'
+  | 'INVALID_JOB'
+  // 랭킹 스냅샷
+  | 'SNAPSHOTS_UNAVAILABLE'
+  // 데이터베이스 (Prisma 에러를 전역 필터가 변환한 값)
+  | 'DUPLICATE_RECORD'
+  | 'FOREIGN_KEY_VIOLATION'
+  | 'RECORD_NOT_FOUND'
+  | 'VALUE_TOO_LONG'
+  | 'DATABASE_UNAVAILABLE'
+  | 'DATABASE_ERROR';
@@ -0,0 +1,58 @@
+import { HttpStatus } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { mapPrismaError } from './prisma-error';
+
+function knownError(code: string, meta?: Record<string, unknown>) {
+  return new Prisma.PrismaClientKnownRequestError('query failed', {
+    code,
+    clientVersion: 'test',
+    meta,
+  });
+}
+
+describe('mapPrismaError', () => {
+  it('should map a unique constraint violation to 409 with the fields', () => {
+    const mapped = mapPrismaError(knownError('P2002', { target: ['userId'] }));
+
+    expect(mapped?.getStatus()).toBe(HttpStatus.CONFLICT);
+    expect(mapped?.getResponse()).toEqual({
+      statusCode: HttpStatus.CONFLICT,
+      code: 'DUPLICATE_RECORD',
+      message: 'A record with the same userId already exists',
+      details: { fields: ['userId'] },
+    });
+  });
+
+  it('should map a missing record to 404', () => {
+    expect(mapPrismaError(knownError('P2025'))?.code).toBe('RECORD_NOT_FOUND');
+  });
+
+  it('should map a too long value to 400 with the column', () => {
+    const mapped = mapPrismaError(
+      knownError('P2000', { column_name: 'nickname' }),
+    );
+
+    expect(mapped?.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+    expect(mapped?.details).toEqual({ field: 'nickname' });
+  });
+
+  it.each(['P1001', 'P1002', 'P1017', 'P2024'])(
+    'should map connection error %s to 503',
+    (code) => {
+      expect(mapPrismaError(knownError(code))?.getStatus()).toBe(
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    },
+  );
+
+  it('should map other Prisma errors to 500 without leaking the query', () => {
+    const mapped = mapPrismaError(knownError('P2010'));
+
+    expect(mapped?.code).toBe('DATABASE_ERROR');
+    expect(mapped?.message).not.toContain('query failed');
+  });
+
+  it('should ignore errors that are not from Prisma', () => {
+    expect(mapPrismaError(new Error('boom'))).toBeNull();
+  });
+});
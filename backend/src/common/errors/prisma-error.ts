@@ -0,0 +1,126 @@
+import { HttpStatus } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ApiException } from './api.exception';
+
+// DB 서버에 연결할 수 없거나 연결 풀이 가득 찬 경우의 에러 코드
+const UNAVAILABLE_CODES = new Set(['P1001', 'P1002', 'P1017', 'P2024']);
+
+/**
+ * Prisma 에러인지 확인함
+ *
+ * @param error - 발생한 에러 객체
+ */
+export function isPrismaError(
+  error: unknown,
+): error is
+  | Prisma.PrismaClientKnownRequestError
+  | Prisma.PrismaClientUnknownRequestError
+  | Prisma.PrismaClientRustPanicError
+  | Prisma.PrismaClientInitializationError
+  | Prisma.PrismaClientValidationError {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError ||
+    error instanceof Prisma.PrismaClientUnknownRequestError ||
+    error instanceof Prisma.PrismaClientRustPanicError ||
+    error instanceof Prisma.PrismaClientInitializationError ||
+    error instanceof Prisma.PrismaClientValidationError
+  );
+}
+
+/**
+ * Prisma 에러를 클라이언트에 보낼 ApiException으로 변환함
+ *
+ * @remarks
+ * - P2002(고유 제약 위반) → 409 DUPLICATE_RECORD, details.fields에 충돌한 컬럼
+ * - P2003(외래 키 위반) → 409 FOREIGN_KEY_VIOLATION
+ * - P2025(대상 레코드 없음) → 404 RECORD_NOT_FOUND
+ * - P2000(컬럼 길이 초과) → 400 VALUE_TOO_LONG, details.field에 해당 컬럼
+ * - P1001, P1002, P1017, P2024 및 클라이언트 초기화 실패(DB 연결 불가) → 503 DATABASE_UNAVAILABLE
+ * - 그 외 Prisma 에러 → 500 DATABASE_ERROR
+ * 응답 메시지에는 쿼리나 내부 구조를 노출하지 않음
+ *
+ * @param error - 발생한 에러 객체
+ *
+ * @returns {ApiException | null} 변환한 예외 (Prisma 에러가 아니면 null)
+ */
+export function mapPrismaError(error: unknown): ApiException | null {
+  if (!isPrismaError(error)) {
+    return null;
+  }
+
+  if (error instanceof Prisma.PrismaClientInitializationError) {
+    return databaseUnavailable();
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (UNAVAILABLE_CODES.has(error.code)) {
+      return databaseUnavailable();
+    }
+
+    switch (error.code) {
+      case 'P2002': {
+        const fields = toFieldList(error.meta?.target);
+        return new ApiException(
+          HttpStatus.CONFLICT,
+          'DUPLICATE_RECORD',
+          fields.length > 0
+            ? `A record with the same ${fields.join(', ')} already exists`
+            : 'A record with the same unique value already exists',
+          fields.length > 0 ? { fields } : null,
+        );
+      }
+      case 'P2003': {
+        const field = toFieldName(error.meta?.field_name);
+        return new ApiException(
+          HttpStatus.CONFLICT,
+          'FOREIGN_KEY_VIOLATION',
+          'The record references or is referenced by another record',
+          field ? { field } : null,
+        );
+      }
+      case 'P2025':
+        return new ApiException(
+          HttpStatus.NOT_FOUND,
+          'RECORD_NOT_FOUND',
+          'The requested record was not found',
+        );
+      case 'P2000': {
+        const field = toFieldName(error.meta?.column_name);
+        return new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALUE_TOO_LONG',
+          field
+            ? `The value for ${field} is too long`
+            : 'A value is too long for its column',
+          field ? { field } : null,
+        );
+      }
+    }
+  }
+
+  return new ApiException(
+    HttpStatus.INTERNAL_SERVER_ERROR,
+    'DATABASE_ERROR',
+    'An error occurred while accessing the database',
+  );
+}
+
+function databaseUnavailable(): ApiException {
+  return new ApiException(
+    HttpStatus.SERVICE_UNAVAILABLE,
+    'DATABASE_UNAVAILABLE',
+    'The database is temporarily unavailable. Please try again later',
+  );
+}
+
+// meta.target은 컬럼 배열 또는 제약 조건 이름 문자열로 옴
+function toFieldList(target: unknown): string[] {
+  if (Array.isArray(target)) {
+    return target.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof target === 'string' ? [target] : [];
+}
+
+function toFieldName(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
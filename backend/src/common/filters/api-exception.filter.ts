@@ -0,0 +1,120 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Request, Response } from 'express';
+import { ApiException, ErrorEnvelope } from '../errors/api.exception';
+import { mapPrismaError } from '../errors/prisma-error';
+import { serializeBigInt } from '../utils/bigint';
+
+/**
+ * 모든 예외를 ErrorEnvelope 형식의 응답으로 변환하는 전역 필터
+ *
+ * @remarks
+ * - ApiException은 지정한 code와 details를 그대로 사용함
+ * - 그 외 HttpException은 HTTP 상태 이름(BAD_REQUEST 등)을 code로 사용함
+ * - Prisma 에러는 mapPrismaError로 상태 코드와 code를 정하고, 원본 에러를 요청 정보와 함께 로그로 남김
+ * - 그 밖의 예외는 로그를 남기고 내부 정보 없이 500으로 응답함
+ * - 본문의 bigint는 BigIntSerializerInterceptor와 같이 문자열로 바꿈
+ * 따라서 서비스는 DB 에러를 직접 잡지 않고 그대로 전파하면 됨
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const http = host.switchToHttp();
+    const response = http.getResponse<Response>();
+    const envelope = this.toEnvelope(exception, http.getRequest<Request>());
+
+    // details에 유저 레코드(충돌한 현재 값 등)가 담기면 bigint가 포함될 수 있음
+    response.status(envelope.statusCode).json(serializeBigInt(envelope));
+  }
+
+  /**
+   * 예외를 응답 본문으로 변환함
+   *
+   * @param exception - 처리되지 않은 예외
+   * @param request - 예외가 발생한 요청 (로그에 사용)
+   */
+  private toEnvelope(exception: unknown, request: Request): ErrorEnvelope {
+    if (exception instanceof ApiException) {
+      return exception.getResponse() as ErrorEnvelope;
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      const body = exception.getResponse();
+      const message =
+        typeof body === 'string'
+          ? body
+          : (body as { message?: unknown }).message;
+
+      return {
+        statusCode: status,
+        code: HttpStatus[status] ?? 'HTTP_ERROR',
+        message: Array.isArray(message)
+          ? message.join(', ')
+          : String(message ?? exception.message),
+        details: null,
+      };
+    }
+
+    const mapped = mapPrismaError(exception);
+    if (mapped) {
+      this.logException(exception, request, mapped.getStatus());
+      return mapped.getResponse() as ErrorEnvelope;
+    }
+
+    this.logException(exception, request, HttpStatus.INTERNAL_SERVER_ERROR);
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      code: HttpStatus[HttpStatus.INTERNAL_SERVER_ERROR],
+      message: 'An unexpected error occurred',
+      details: null,
+    };
+  }
+
+  /**
+   * 원본 예외를 요청 정보(메서드, 경로, 파라미터, 쿼리)와 함께 로그로 남김
+   *
+   * @remarks
+   * 클라이언트 요청 때문에 생긴 4xx는 warn, 서버 쪽 문제인 5xx는 스택과 함께 error로 남김
+   * 요청 본문은 개인 정보가 있을 수 있어 남기지 않음
+   *
+   * @param exception - 원본 예외
+   * @param request - 예외가 발생한 요청
+   * @param status - 응답할 HTTP 상태 코드
+   */
+  private logException(exception: unknown, request: Request, status: number) {
+    const context = JSON.stringify({
+      status,
+      method: request.method,
+      url: request.originalUrl ?? request.url,
+      params: request.params,
+      query: request.query,
+      ...(exception instanceof Prisma.PrismaClientKnownRequestError && {
+        prismaCode: exception.code,
+        meta: exception.meta,
+      }),
+    });
+    const summary =
+      exception instanceof Error
+        ? `${exception.name}: ${exception.message}`
+        : String(exception);
+
+    if (status < HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.warn(`${summary} ${context}`);
+      return;
+    }
+    this.logger.error(
+      `${summary} ${context}`,
+      exception instanceof Error ? exception.stack : undefined,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import { serializeBigInt } from '../utils/bigint';
+
+/**
+ * 응답 본문의 bigint(meso, exp 등)를 문자열로 바꾸는 전역 인터셉터
+ *
+ * @remarks
+ * 에러 응답은 ApiExceptionFilter에서 같은 방식으로 변환함
+ */
+@Injectable()
+export class BigIntSerializerInterceptor implements NestInterceptor {
+  intercept(
+    _context: ExecutionContext,
+    next: CallHandler,
+  ): Observable<unknown> {
+    return next.handle().pipe(map(serializeBigInt));
+  }
+}
@@ -0,0 +1,62 @@
+import { HttpStatus, ValidationError, ValidationPipe } from '@nestjs/common';
+import { ApiException } from '../errors/api.exception';
+
+/**
+ * 검증에 실패한 필드 하나
+ *
+ * @remarks
+ * field는 중첩 객체의 경우 점으로 이은 경로(예: patch.set.level)임
+ */
+export interface FieldError {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * 전역 ValidationPipe를 생성함
+ *
+ * @remarks
+ * 요청 본문, 쿼리, 경로 파라미터를 DTO로 변환하고, DTO에 정의되지 않은 필드가 있으면 거부함
+ * 쿼리 문자열의 숫자 변환은 DTO의 @Type으로 명시한 필드만 수행함
+ * 실패하면 details.errors에 필드별 메시지를 담은 VALIDATION_FAILED 에러를 던짐
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    exceptionFactory: (errors) => {
+      const fieldErrors = flattenValidationErrors(errors);
+
+      return new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        fieldErrors[0]?.messages[0] ?? 'Request validation failed',
+        { errors: fieldErrors },
+      );
+    },
+  });
+}
+
+/**
+ * 중첩된 class-validator 에러를 필드 경로별 목록으로 펼침
+ *
+ * @param errors - ValidationPipe가 전달한 에러 트리
+ * @param parentPath - 상위 필드 경로
+ */
+export function flattenValidationErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    // constraints는 데코레이터 선언의 역순이므로, 기본 형식 검사(IsInt 등)가 먼저 오도록 뒤집음
+    const own = error.constraints
+      ? [{ field, messages: Object.values(error.constraints).reverse() }]
+      : [];
+
+    return [...own, ...flattenValidationErrors(error.children ?? [], field)];
+  });
+}
@@ -0,0 +1,34 @@
+import { parseBigInt, serializeBigInt } from './bigint';
+
+describe('bigint', () => {
+  it('should parse integer strings beyond the safe integer range', () => {
+    expect(parseBigInt('9007199254740993')).toBe(9007199254740993n);
+    expect(parseBigInt(' -42 ')).toBe(-42n);
+  });
+
+  it('should parse safe integer numbers only', () => {
+    expect(parseBigInt(1500)).toBe(1500n);
+    expect(parseBigInt(1.5)).toBeNull();
+    expect(parseBigInt(2 ** 60)).toBeNull();
+  });
+
+  it('should reject non-integer strings', () => {
+    expect(parseBigInt('1e3')).toBeNull();
+    expect(parseBigInt('1,000')).toBeNull();
+    expect(parseBigInt('')).toBeNull();
+  });
+
+  it('should serialize nested bigint values as strings', () => {
+    const createdAt = new Date('2025-01-01T00:00:00.000Z');
+
+    expect(
+      serializeBigInt({
+        users: [{ exp: 3000000000n, level: 150, createdAt }],
+        details: null,
+      }),
+    ).toEqual({
+      users: [{ exp: '3000000000', level: 150, createdAt }],
+      details: null,
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * BIGINT 컬럼(meso, exp) 값을 다루는 유틸리티
+ *
+ * @remarks
+ * JSON 숫자는 2^53을 넘으면 정밀도를 잃으므로 BIGINT 값은 API에서 문자열로 주고받음
+ * 요청에서는 안전한 정수 범위의 JSON 숫자도 허용함
+ */
+
+/**
+ * BIGINT 컬럼에 저장할 수 있는 최댓값
+ */
+export const MAX_BIGINT = 9223372036854775807n;
+
+/**
+ * 값을 bigint로 변환함
+ *
+ * @remarks
+ * bigint, 안전한 정수 범위의 숫자, 정수 문자열(앞의 부호 허용)만 변환하며
+ * 소수, 지수 표기, 빈 문자열 등은 변환하지 않음
+ *
+ * @example
+ * parseBigInt('12345678901234567890') // 12345678901234567890n
+ * parseBigInt(1.5) // null
+ *
+ * @returns 변환한 값 (변환할 수 없으면 null)
+ */
+export function parseBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? BigInt(value) : null;
+  }
+  if (typeof value === 'string' && /^[+-]?\d+$/.test(value.trim())) {
+    return BigInt(value.trim());
+  }
+  return null;
+}
+
+/**
+ * 응답 본문의 bigint를 모두 문자열로 바꿈
+ *
+ * @remarks
+ * JSON.stringify는 bigint를 직렬화하지 못하므로 응답 직전에 적용함
+ * 배열과 일반 객체만 재귀적으로 변환하며, Date 등 다른 객체는 그대로 둠
+ *
+ * @param value - 응답 본문
+ */
+export function serializeBigInt(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeBigInt);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeBigInt(item)]),
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
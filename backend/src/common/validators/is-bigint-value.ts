@@ -0,0 +1,50 @@
+import { applyDecorators } from '@nestjs/common';
+import { Transform } from 'class-transformer';
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+import { parseBigInt } from '../utils/bigint';
+
+/**
+ * BIGINT 컬럼에 저장할 정수 필드를 bigint로 변환하고 범위를 검사함
+ *
+ * @remarks
+ * 정수 문자열 또는 안전한 정수 범위의 JSON 숫자를 받으며,
+ * 변환할 수 없는 값은 그대로 두어 검증 에러로 응답함
+ * null과 undefined는 그대로 두므로 선택 필드는 @IsOptional과 함께 사용함
+ *
+ * @param min - 허용 최솟값
+ * @param max - 허용 최댓값
+ *
+ * @example
+ * @IsOptional()
+ * @IsBigIntValue(0n, MAX_BIGINT)
+ * meso?: bigint | null;
+ */
+export function IsBigIntValue(
+  min: bigint,
+  max: bigint,
+  options?: ValidationOptions,
+): PropertyDecorator {
+  return applyDecorators(
+    Transform(({ value }) =>
+      value === null || value === undefined
+        ? value
+        : (parseBigInt(value) ?? value),
+    ),
+    ValidateBy(
+      {
+        name: 'isBigIntValue',
+        constraints: [min, max],
+        validator: {
+          validate: (value) =>
+            typeof value === 'bigint' && value >= min && value <= max,
+          defaultMessage: buildMessage(
+            (eachPrefix) =>
+              `${eachPrefix}$property must be an integer between ${min} and ${max}`,
+            options,
+          ),
+        },
+      },
+      options,
+    ),
+  );
+}
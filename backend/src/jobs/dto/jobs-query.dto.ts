@@ -0,0 +1,24 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { MAX_JOB_BRANCH } from '../utils/job-catalog';
+
+/**
+ * 직업 목록 조회(GET /jobs) 쿼리 파라미터
+ */
+export class JobsQueryDto {
+  // 직업 계열 (0 초보자, 1 전사, 2 궁수, 3 마법사, 4 도적, 5 해적)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_JOB_BRANCH)
+  branch?: number;
+
+  // 전직 차수 (0 초보자, 1~4차)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(4)
+  tier?: number;
+}
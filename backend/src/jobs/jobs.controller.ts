@@ -0,0 +1,13 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { JobsQueryDto } from './dto/jobs-query.dto';
+
+@Controller('jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  async getJobs(@Query() { branch, tier }: JobsQueryDto) {
+    return this.jobsService.getJobs({ branch, tier });
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * 직업 목록(Job)을 조회하는 서비스
+ *
+ * @remarks
+ * 직업 목록은 scripts/seed-jobs.ts가 scripts/fixtures/jobs.json으로 적재하며 API로는 변경하지 않음
+ */
+@Injectable()
+export class JobsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 직업 목록을 직업 ID 순으로 조회함
+   *
+   * @param filter - 직업 계열, 전직 차수 조건 (생략 시 전체)
+   *
+   * @throws {HttpException} DB 접근 오류
+   *
+   * @returns {Promise<Array<{
+   *   code: number,
+   *   nameKo: string,
+   *   nameEn: string,
+   *   branch: number,
+   *   tier: number
+   * }>>} 직업 목록
+   */
+  async getJobs(filter: { branch?: number; tier?: number } = {}) {
+    return this.prisma.job.findMany({
+      where: {
+        ...(filter.branch !== undefined && { branch: filter.branch }),
+        ...(filter.tier !== undefined && { tier: filter.tier }),
+      },
+      orderBy: { code: 'asc' },
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { checkJobPair, createJobLookup } from './job-catalog';
+
+describe('job-catalog', () => {
+  const lookup = createJobLookup([
+    { code: 0, nameKo: '초보자', nameEn: 'Beginner', branch: 0, tier: 0 },
+    { code: 411, nameKo: '허밋', nameEn: 'Hermit', branch: 4, tier: 3 },
+    {
+      code: 211,
+      nameKo: '메이지(불,독)',
+      nameEn: 'Mage (Fire/Poison)',
+      branch: 3,
+      tier: 3,
+    },
+  ]);
+
+  it('should accept a pair that matches the catalog', () => {
+    expect(checkJobPair(lookup, '허밋', 411)).toEqual({
+      status: 'valid',
+      job: '허밋',
+      jobCode: 411,
+      expectedJob: '허밋',
+    });
+    expect(checkJobPair(lookup, null, null).status).toBe('valid');
+  });
+
+  it('should report the expected job for a mismatched pair', () => {
+    expect(checkJobPair(lookup, '허밋', 211)).toEqual({
+      status: 'mismatch',
+      job: '허밋',
+      jobCode: 211,
+      expectedJob: '메이지(불,독)',
+    });
+  });
+
+  it('should not treat other spellings as the catalog name', () => {
+    expect(checkJobPair(lookup, '메이지 (불, 독)', 211).status).toBe(
+      'mismatch',
+    );
+    expect(checkJobPair(lookup, 'Hermit', null).status).toBe('unknownJob');
+  });
+
+  it('should reject unknown jobs and job codes', () => {
+    expect(checkJobPair(lookup, '마법사', null).status).toBe('unknownJob');
+    expect(checkJobPair(lookup, '허밋', 4).status).toBe('unknownJobCode');
+  });
+
+  it('should fill in the job name when only the job code is given', () => {
+    expect(checkJobPair(lookup, null, 0)).toEqual({
+      status: 'valid',
+      job: '초보자',
+      jobCode: 0,
+      expectedJob: '초보자',
+    });
+    expect(checkJobPair(lookup, '', 411)).toMatchObject({
+      status: 'valid',
+      job: '허밋',
+      jobCode: 411,
+    });
+  });
+
+  it('should fill in the job code when only the job name is given', () => {
+    expect(checkJobPair(lookup, '메이지(불,독)', null)).toEqual({
+      status: 'valid',
+      job: '메이지(불,독)',
+      jobCode: 211,
+      expectedJob: '메이지(불,독)',
+    });
+    expect(checkJobPair(lookup, '', null)).toMatchObject({
+      status: 'valid',
+      job: null,
+      jobCode: null,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * 직업 목록(Job)을 기준으로 유저의 job/jobCode 쌍을 검사하는 유틸리티
+ *
+ * @remarks
+ * User.jobCode는 Job.code를 가리키는 외래 키이며, User.job은 그 직업의 Job.nameKo와 같아야 함
+ * job과 jobCode의 일치 여부는 DB 제약이 아니라 애플리케이션에서 검사함
+ */
+
+/** 직업 계열 코드의 최댓값 (0 초보자, 1 전사, 2 궁수, 3 마법사, 4 도적, 5 해적) */
+export const MAX_JOB_BRANCH = 5;
+
+/**
+ * 직업 목록의 한 항목 (Job 모델과 같은 형태)
+ */
+export interface JobCatalogEntry {
+  code: number;
+  nameKo: string;
+  nameEn: string;
+  branch: number;
+  tier: number;
+}
+
+/**
+ * 직업 코드와 한글명으로 직업을 찾는 맵
+ */
+export interface JobLookup {
+  byCode: Map<number, JobCatalogEntry>;
+  byName: Map<string, JobCatalogEntry>;
+}
+
+/**
+ * job/jobCode 쌍의 검사 결과
+ *
+ * @remarks
+ * - valid: 직업 목록과 일치함 (둘 중 하나만 있으면 직업 목록에서 나머지를 채움)
+ * - unknownJob: 직업 목록에 없는 직업명
+ * - unknownJobCode: 직업 목록에 없는 직업 코드
+ * - mismatch: 직업 코드가 가리키는 직업과 직업명이 다름
+ */
+export interface JobPairCheck {
+  status: 'valid' | 'unknownJob' | 'unknownJobCode' | 'mismatch';
+  // 저장할 직업명과 직업 코드 (valid이면 둘 다 있거나 둘 다 null)
+  job: string | null;
+  jobCode: number | null;
+  // jobCode가 가리키는 직업의 한글명 (직업 목록에 있는 jobCode일 때만)
+  expectedJob: string | null;
+}
+
+/**
+ * 직업 코드와 한글명으로 직업을 찾는 맵을 만듦
+ *
+ * @param jobs - 직업 목록
+ */
+export function createJobLookup(jobs: JobCatalogEntry[]): JobLookup {
+  return {
+    byCode: new Map(jobs.map((job) => [job.code, job])),
+    byName: new Map(jobs.map((job) => [job.nameKo, job])),
+  };
+}
+
+/**
+ * job/jobCode 쌍을 직업 목록과 대조함
+ *
+ * @remarks
+ * 한쪽만 있으면 직업 목록에서 나머지를 채워, 랭킹과 필터에서 빠지는 반쪽짜리 쌍이 저장되지 않도록 함
+ * 둘 다 있는데 어긋나면 값을 고치지 않고 검사 결과만 반환함 (어떻게 처리할지는 호출하는 쪽이 정함)
+ *
+ * @param lookup - createJobLookup으로 만든 맵
+ * @param job - 직업명 (Job.nameKo와 정확히 같아야 함, 빈 문자열은 없는 값으로 봄)
+ * @param jobCode - 직업 코드 (Job.code)
+ */
+export function checkJobPair(
+  lookup: JobLookup,
+  job: string | null,
+  jobCode: number | null,
+): JobPairCheck {
+  const name = job || null;
+
+  if (jobCode === null) {
+    if (name === null) {
+      return { status: 'valid', job: null, jobCode: null, expectedJob: null };
+    }
+    const entry = lookup.byName.get(name);
+    return entry
+      ? { status: 'valid', job: name, jobCode: entry.code, expectedJob: name }
+      : { status: 'unknownJob', job: name, jobCode: null, expectedJob: null };
+  }
+
+  const entry = lookup.byCode.get(jobCode);
+  if (!entry) {
+    return { status: 'unknownJobCode', job: name, jobCode, expectedJob: null };
+  }
+
+  return {
+    status: name === null || name === entry.nameKo ? 'valid' : 'mismatch',
+    job: name ?? entry.nameKo,
+    jobCode,
+    expectedJob: entry.nameKo,
+  };
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import {
+  ExpAnomalyReason,
+  LevelCurve,
+  LevelProgress,
+  findExpAnomaly,
+  getLevelProgress,
+  parseLevelCurve,
+} from './utils/level-curve';
+
+/**
+ * 레벨-경험치 곡선을 제공하는 서비스
+ *
+ * @remarks
+ * LEVEL_EXP_CURVE_PATH의 파일(.json 또는 .csv)을 시작할 때 한 번 읽으며,
+ * 파일이 없거나 형식이 올바르지 않으면 애플리케이션이 시작되지 않음
+ */
+@Injectable()
+export class LevelCurveService {
+  readonly curve: LevelCurve;
+
+  constructor(private readonly configService: ConfigService) {
+    const path = resolve(
+      this.configService.get<string>('LEVEL_EXP_CURVE_PATH'),
+    );
+    const format = extname(path).toLowerCase() === '.csv' ? 'csv' : 'json';
+
+    try {
+      this.curve = parseLevelCurve(readFileSync(path, 'utf8'), format);
+    } catch (error) {
+      throw new Error(
+        `Failed to load level exp curve from ${path}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * 현재 레벨과 경험치로 다음 레벨까지의 진행 정보를 계산함
+   *
+   * @param level - 현재 레벨
+   * @param exp - 현재 레벨에서 쌓은 경험치
+   */
+  getProgress(level: number, exp: bigint | null): LevelProgress {
+    return getLevelProgress(this.curve, level, exp);
+  }
+
+  /**
+   * 레벨에 비해 불가능한 경험치인지 검사함
+   *
+   * @param level - 현재 레벨
+   * @param exp - 현재 레벨에서 쌓은 경험치
+   *
+   * @returns 불가능한 이유 (정상이면 null)
+   */
+  findAnomaly(level: number, exp: bigint | null): ExpAnomalyReason | null {
+    return findExpAnomaly(this.curve, level, exp);
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { LevelCurveService } from './level-curve.service';
+
+@Module({
+  providers: [LevelCurveService],
+  exports: [LevelCurveService],
+})
+export class LevelsModule {}
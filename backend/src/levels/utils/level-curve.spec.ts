@@ -0,0 +1,79 @@
+import {
+  findExpAnomaly,
+  getLevelProgress,
+  parseLevelCurve,
+} from './level-curve';
+
+describe('level-curve', () => {
+  const curve = parseLevelCurve(
+    JSON.stringify([
+      { level: 1, requiredExp: 15 },
+      { level: 2, requiredExp: 34 },
+      { level: 3, requiredExp: 57 },
+    ]),
+    'json',
+  );
+
+  it('should parse the curve and derive the max level', () => {
+    expect(curve.maxLevel).toBe(4);
+    expect(curve.requiredExp.get(2)).toBe(34n);
+  });
+
+  it('should parse the same curve from CSV', () => {
+    expect(
+      parseLevelCurve('level,requiredExp\n1,15\n2,34\n3,57\n', 'csv'),
+    ).toEqual(curve);
+  });
+
+  it('should keep required exp beyond the safe integer range exact', () => {
+    const bigCurve = parseLevelCurve(
+      'level,requiredExp\n1,15\n2,90071992547409930\n',
+      'csv',
+    );
+
+    expect(bigCurve.requiredExp.get(2)).toBe(90071992547409930n);
+    expect(getLevelProgress(bigCurve, 2, 45035996273704965n)).toEqual({
+      requiredExp: 90071992547409930n,
+      expPercent: 50,
+    });
+  });
+
+  it('should reject required exp that JSON numbers cannot hold exactly', () => {
+    expect(() =>
+      parseLevelCurve(
+        '[{ "level": 1, "requiredExp": 90071992547409930 }]',
+        'json',
+      ),
+    ).toThrow('positive integer');
+    expect(
+      parseLevelCurve(
+        '[{ "level": 1, "requiredExp": "90071992547409930" }]',
+        'json',
+      ).requiredExp.get(1),
+    ).toBe(90071992547409930n);
+  });
+
+  it('should reject a curve with missing levels', () => {
+    expect(() =>
+      parseLevelCurve('level,requiredExp\n1,15\n3,57', 'csv'),
+    ).toThrow('without gaps');
+  });
+
+  it('should compute the percentage toward the next level', () => {
+    expect(getLevelProgress(curve, 2, 17n)).toEqual({
+      requiredExp: 34n,
+      expPercent: 50,
+    });
+    expect(getLevelProgress(curve, 4, 0n)).toEqual({
+      requiredExp: null,
+      expPercent: null,
+    });
+  });
+
+  it('should detect exp that is impossible for the level', () => {
+    expect(findExpAnomaly(curve, 2, 33n)).toBeNull();
+    expect(findExpAnomaly(curve, 2, 34n)).toBe('EXP_EXCEEDS_REQUIRED');
+    expect(findExpAnomaly(curve, 4, 1n)).toBe('EXP_AT_MAX_LEVEL');
+    expect(findExpAnomaly(curve, 5, null)).toBe('LEVEL_ABOVE_MAX');
+  });
+});
@@ -0,0 +1,188 @@
+import { MAX_BIGINT, parseBigInt } from '../../common/utils/bigint';
+
+/**
+ * 레벨별 필요 경험치(레벨-경험치 곡선) 유틸리티
+ *
+ * @remarks
+ * 곡선은 레벨 1부터 빠짐없이 "그 레벨에서 다음 레벨로 오르는 데 필요한 경험치"를 나열하며,
+ * 마지막 항목의 다음 레벨이 최고 레벨임 (최고 레벨에서는 경험치를 얻을 수 없음)
+ * User.exp는 현재 레벨에서 쌓은 경험치이므로 항상 필요 경험치보다 작아야 함
+ * 필요 경험치는 User.exp와 같은 BIGINT 범위이므로 bigint로 다루며, API에서는 문자열로 내려감
+ */
+
+/**
+ * 레벨-경험치 곡선
+ */
+export interface LevelCurve {
+  maxLevel: number;
+  // 레벨 → 다음 레벨까지 필요한 경험치 (1 ~ maxLevel - 1)
+  requiredExp: Map<number, bigint>;
+}
+
+/**
+ * 곡선 파일 형식
+ *
+ * @remarks
+ * - json: `[{ "level": 1, "requiredExp": 15 }, ...]` (2^53을 넘는 필요 경험치는 `"requiredExp": "12345678901234567890"`처럼 문자열로 씀)
+ * - csv: 첫 줄이 `level,requiredExp`인 헤더이고 이후 한 줄에 한 레벨
+ */
+export type LevelCurveFormat = 'json' | 'csv';
+
+/**
+ * 유저의 다음 레벨까지의 진행 정보
+ *
+ * @remarks
+ * expPercent는 소수점 둘째 자리까지의 백분율이며, 100 이상이면 레벨에 비해 불가능한 경험치임
+ * 최고 레벨이거나 경험치가 없으면 계산할 수 없으므로 null
+ */
+export interface LevelProgress {
+  requiredExp: bigint | null;
+  expPercent: number | null;
+}
+
+/**
+ * 레벨에 비해 불가능한 경험치의 종류
+ *
+ * @remarks
+ * - EXP_EXCEEDS_REQUIRED: 경험치가 다음 레벨 필요 경험치 이상
+ * - EXP_AT_MAX_LEVEL: 최고 레벨인데 경험치가 0보다 큼
+ * - LEVEL_ABOVE_MAX: 레벨이 곡선의 최고 레벨보다 높음
+ */
+export type ExpAnomalyReason =
+  | 'EXP_EXCEEDS_REQUIRED'
+  | 'EXP_AT_MAX_LEVEL'
+  | 'LEVEL_ABOVE_MAX';
+
+/**
+ * 곡선 파일 내용을 LevelCurve로 변환함
+ *
+ * @param content - 파일 내용
+ * @param format - 파일 형식
+ *
+ * @throws {Error} 형식이 올바르지 않거나 레벨이 1부터 연속되지 않는 경우
+ */
+export function parseLevelCurve(
+  content: string,
+  format: LevelCurveFormat,
+): LevelCurve {
+  const rows =
+    format === 'json' ? parseJsonRows(content) : parseCsvRows(content);
+  if (rows.length === 0) {
+    throw new Error('Level curve is empty');
+  }
+
+  const requiredExp = new Map<number, bigint>();
+  rows.forEach(({ level, requiredExp: value }, index) => {
+    if (level !== index + 1) {
+      throw new Error(
+        `Level curve must list levels from 1 without gaps (found ${level} at row ${index + 1})`,
+      );
+    }
+    const exp = parseBigInt(value);
+    if (exp === null || exp <= 0n || exp > MAX_BIGINT) {
+      throw new Error(
+        `Required exp for level ${level} must be a positive integer up to ${MAX_BIGINT}`,
+      );
+    }
+    requiredExp.set(level, exp);
+  });
+
+  return { maxLevel: rows.length + 1, requiredExp };
+}
+
+/**
+ * 현재 레벨과 경험치로 다음 레벨까지의 진행 정보를 계산함
+ *
+ * @param curve - 레벨-경험치 곡선
+ * @param level - 현재 레벨
+ * @param exp - 현재 레벨에서 쌓은 경험치
+ */
+export function getLevelProgress(
+  curve: LevelCurve,
+  level: number,
+  exp: bigint | null,
+): LevelProgress {
+  const requiredExp = curve.requiredExp.get(level) ?? null;
+  if (requiredExp === null || exp === null) {
+    return { requiredExp, expPercent: null };
+  }
+
+  // exp와 필요 경험치가 안전한 정수 범위를 넘을 수 있으므로 bigint로 나눈 뒤 변환
+  return {
+    requiredExp,
+    expPercent: Number((exp * 10000n) / requiredExp) / 100,
+  };
+}
+
+/**
+ * 레벨에 비해 불가능한 경험치인지 검사함
+ *
+ * @param curve - 레벨-경험치 곡선
+ * @param level - 현재 레벨
+ * @param exp - 현재 레벨에서 쌓은 경험치
+ *
+ * @returns 불가능한 이유 (정상이면 null)
+ */
+export function findExpAnomaly(
+  curve: LevelCurve,
+  level: number,
+  exp: bigint | null,
+): ExpAnomalyReason | null {
+  if (level > curve.maxLevel) {
+    return 'LEVEL_ABOVE_MAX';
+  }
+  if (exp === null) {
+    return null;
+  }
+  if (level === curve.maxLevel) {
+    return exp > 0n ? 'EXP_AT_MAX_LEVEL' : null;
+  }
+  return exp >= curve.requiredExp.get(level) ? 'EXP_EXCEEDS_REQUIRED' : null;
+}
+
+/**
+ * 곡선 파일의 한 행 (requiredExp는 검증 전 원본 값)
+ */
+interface LevelCurveRow {
+  level: number;
+  requiredExp: unknown;
+}
+
+function parseJsonRows(content: string): LevelCurveRow[] {
+  const rows: unknown = JSON.parse(content);
+  if (!Array.isArray(rows)) {
+    throw new Error('Level curve JSON must be an array');
+  }
+
+  return rows.map((row, index) => {
+    if (
+      typeof row !== 'object' ||
+      row === null ||
+      typeof row.level !== 'number' ||
+      (typeof row.requiredExp !== 'number' &&
+        typeof row.requiredExp !== 'string')
+    ) {
+      throw new Error(
+        `Level curve row ${index + 1} must have a numeric level and a numeric or integer string requiredExp`,
+      );
+    }
+    return { level: row.level, requiredExp: row.requiredExp };
+  });
+}
+
+function parseCsvRows(content: string): LevelCurveRow[] {
+  const [header, ...lines] = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+  if (header?.replace(/\s/g, '') !== 'level,requiredExp') {
+    throw new Error(
+      'Level curve CSV must start with a "level,requiredExp" header',
+    );
+  }
+
+  return lines.map((line) => {
+    const [level, requiredExp] = line.split(',');
+    return { level: Number(level), requiredExp };
+  });
+}
@@ -13,6 +13,8 @@ async function bootstrap() {
   app.enableCors({
     origin: corsOrigins,
     credentials: corsCredentials,
+    // 낙관적 동시성 제어용 ETag를 브라우저에서 읽을 수 있도록 노출
+    exposedHeaders: ['ETag'],
   });
 
   app.setGlobalPrefix('api');
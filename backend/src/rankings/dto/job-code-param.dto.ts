@@ -0,0 +1,12 @@
+import { Type } from 'class-transformer';
+import { IsInt, Min } from 'class-validator';
+
+/**
+ * :jobCode 경로 파라미터
+ */
+export class JobCodeParamDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  jobCode: number;
+}
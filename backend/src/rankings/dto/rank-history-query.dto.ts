@@ -0,0 +1,17 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * 유저 순위 이력 조회(GET /rankings/users/:userId/history) 쿼리 파라미터
+ *
+ * @remarks
+ * 날짜의 형식과 실재 여부는 서비스에서 검사함
+ */
+export class RankHistoryQueryDto {
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsString()
+  to?: string;
+}
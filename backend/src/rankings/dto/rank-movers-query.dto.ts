@@ -0,0 +1,26 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * 순위 변동 조회(GET /rankings/movers) 쿼리 파라미터
+ *
+ * @remarks
+ * 날짜의 형식과 실재 여부는 서비스에서 검사함
+ */
+export class RankMoversQueryDto {
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  // 상승/하락 각각 반환할 유저 수 (기본 10)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,277 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ApiException } from '../common/errors/api.exception';
+import { getRankingSortKeys } from '../users/utils/ranking-cursor';
+import { parseRankTiePolicy, rankWindowSql } from '../users/utils/rank-window';
+
+/**
+ * 스냅샷 기준일 계산에 사용하는 시간대
+ */
+const SNAPSHOT_TIME_ZONE = 'Asia/Seoul';
+
+/**
+ * 두 스냅샷 사이의 순위 변동 정보
+ */
+export interface RankMover {
+  userId: string;
+  nickname: string;
+  fromRank: number;
+  toRank: number;
+  change: number;
+  level: number;
+  exp: bigint | null;
+}
+
+/**
+ * 일별 랭킹 스냅샷을 기록하고 순위 변동을 조회하는 서비스
+ *
+ * @remarks
+ * 매일 자정(KST)에 전체 유저의 순위, 레벨, 경험치를 RankingSnapshot 테이블에 저장하며,
+ * 저장된 스냅샷으로 유저별 순위 이력과 두 날짜 사이의 순위 상승/하락 폭을 계산함
+ */
+@Injectable()
+export class RankingSnapshotsService {
+  private readonly logger = new Logger(RankingSnapshotsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 매일 자정(KST)에 오늘자 랭킹 스냅샷을 기록함
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT, {
+    name: 'ranking-snapshot',
+    timeZone: SNAPSHOT_TIME_ZONE,
+  })
+  async handleDailySnapshot() {
+    try {
+      const { snapshotDate, userCount } = await this.captureSnapshot();
+      this.logger.log(
+        `Captured ranking snapshot for ${snapshotDate} (${userCount} users)`,
+      );
+    } catch (error) {
+      this.logger.error('Failed to capture ranking snapshot', error);
+    }
+  }
+
+  /**
+   * 지정한 날짜의 랭킹 스냅샷을 기록함
+   *
+   * @remarks
+   * 같은 날짜의 스냅샷이 이미 있으면 현재 값으로 덮어씀
+   * 휴지통에 있는 유저는 기록하지 않음
+   * 순위는 기본 랭킹(레벨 → 경험치)과 RANK_TIE_POLICY 설정을 따름
+   *
+   * @param snapshotDate - 스냅샷 기준일 (YYYY-MM-DD, 생략 시 오늘)
+   *
+   * @returns 기준일과 기록된 유저 수
+   */
+  async captureSnapshot(snapshotDate: string = this.today()) {
+    const policy = parseRankTiePolicy(
+      this.configService.get<string>('RANK_TIE_POLICY'),
+    );
+
+    const userCount = await this.prisma.$executeRaw`
+      INSERT INTO "RankingSnapshot" ("id", "snapshotDate", "userId", "rank", "level", "exp")
+      SELECT
+        gen_random_uuid()::text,
+        ${snapshotDate}::date,
+        "userId",
+        ${rankWindowSql(policy, getRankingSortKeys(policy))},
+        "level",
+        "exp"
+      FROM "User"
+      WHERE "deletedAt" IS NULL
+      ON CONFLICT ("snapshotDate", "userId") DO UPDATE SET
+        "rank" = EXCLUDED."rank",
+        "level" = EXCLUDED."level",
+        "exp" = EXCLUDED."exp"
+    `;
+
+    return { snapshotDate, userCount };
+  }
+
+  /**
+   * 특정 유저의 일별 순위 이력을 조회함
+   *
+   * @param userId - 조회할 유저의 고유 ID
+   * @param from - 조회 시작일 (YYYY-MM-DD, 생략 시 제한 없음)
+   * @param to - 조회 종료일 (YYYY-MM-DD, 생략 시 제한 없음)
+   *
+   * @throws {HttpException} 유효하지 않은 날짜 형식
+   *
+   * @returns {Promise<{
+   *   userId: string,
+   *   history: { snapshotDate: string, rank: number, level: number, exp: bigint | null }[]
+   * }>}
+   */
+  async getUserRankHistory(userId: string, from?: string, to?: string) {
+    this.validateSnapshotDate(from, 'from');
+    this.validateSnapshotDate(to, 'to');
+
+    const snapshots = await this.prisma.rankingSnapshot.findMany({
+      where: {
+        userId,
+        snapshotDate: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      },
+      orderBy: { snapshotDate: 'asc' },
+      select: { snapshotDate: true, rank: true, level: true, exp: true },
+    });
+
+    return {
+      userId,
+      history: snapshots.map((snapshot) => ({
+        ...snapshot,
+        snapshotDate: this.formatDate(snapshot.snapshotDate),
+      })),
+    };
+  }
+
+  /**
+   * 두 스냅샷 사이에 순위가 가장 많이 오른 유저와 떨어진 유저를 조회함
+   *
+   * @remarks
+   * 날짜를 생략하면 가장 최근 두 스냅샷을 비교함
+   * change는 (이전 순위 - 이후 순위)로, 양수이면 순위 상승을 의미함
+   * 두 스냅샷에 모두 존재하고 휴지통에 있지 않은 유저만 비교 대상임
+   *
+   * @param from - 비교 기준 스냅샷 날짜 (YYYY-MM-DD)
+   * @param to - 비교 대상 스냅샷 날짜 (YYYY-MM-DD)
+   * @param limit - 상승/하락 각각 반환할 유저 수 (1 ~ 100, 컨트롤러의 쿼리 DTO에서 검사)
+   *
+   * @throws {HttpException}
+   * - 유효하지 않은 날짜 형식
+   * - 비교할 스냅샷이 부족한 경우
+   *
+   * @returns {Promise<{
+   *   from: string,
+   *   to: string,
+   *   climbers: RankMover[],
+   *   fallers: RankMover[]
+   * }>}
+   */
+  async getRankMovers(
+    from: string | undefined,
+    to: string | undefined,
+    limit: number,
+  ) {
+    this.validateSnapshotDate(from, 'from');
+    this.validateSnapshotDate(to, 'to');
+
+    if (Boolean(from) !== Boolean(to)) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'from and to must be provided together',
+      );
+    }
+
+    const [fromDate, toDate] =
+      from && to ? [from, to] : await this.getLatestSnapshotDates();
+
+    const findMovers = (direction: 'climbers' | 'fallers') => {
+      const isClimbing = direction === 'climbers';
+      const rankCondition = isClimbing
+        ? Prisma.sql`f."rank" > t."rank"`
+        : Prisma.sql`f."rank" < t."rank"`;
+      const changeOrder = isClimbing ? Prisma.sql`DESC` : Prisma.sql`ASC`;
+
+      return this.prisma.$queryRaw<RankMover[]>`
+        SELECT
+          t."userId", u."nickname",
+          f."rank" AS "fromRank", t."rank" AS "toRank",
+          (f."rank" - t."rank") AS "change",
+          t."level", t."exp"
+        FROM "RankingSnapshot" f
+        JOIN "RankingSnapshot" t ON t."userId" = f."userId"
+        JOIN "User" u ON u."userId" = t."userId" AND u."deletedAt" IS NULL
+        WHERE f."snapshotDate" = ${fromDate}::date
+          AND t."snapshotDate" = ${toDate}::date
+          AND ${rankCondition}
+        ORDER BY "change" ${changeOrder}, t."rank" ASC
+        LIMIT ${limit}
+      `;
+    };
+
+    const [climbers, fallers] = await Promise.all([
+      findMovers('climbers'),
+      findMovers('fallers'),
+    ]);
+
+    return { from: fromDate, to: toDate, climbers, fallers };
+  }
+
+  /**
+   * 가장 최근 두 스냅샷 날짜를 [이전, 최근] 순서로 반환함
+   *
+   * @throws {HttpException} 스냅샷이 두 개 미만인 경우
+   */
+  private async getLatestSnapshotDates(): Promise<[string, string]> {
+    const rows = await this.prisma.rankingSnapshot.findMany({
+      distinct: ['snapshotDate'],
+      orderBy: { snapshotDate: 'desc' },
+      take: 2,
+      select: { snapshotDate: true },
+    });
+
+    if (rows.length < 2) {
+      throw new ApiException(
+        HttpStatus.NOT_FOUND,
+        'SNAPSHOTS_UNAVAILABLE',
+        'At least two ranking snapshots are required to compare',
+      );
+    }
+
+    return [
+      this.formatDate(rows[1].snapshotDate),
+      this.formatDate(rows[0].snapshotDate),
+    ];
+  }
+
+  /**
+   * 스냅샷 날짜 파라미터(YYYY-MM-DD)의 유효성을 검사함
+   *
+   * @param value - 검증할 날짜 문자열 (undefined이면 검사하지 않음)
+   * @param name - 에러 메시지에 표시할 파라미터 이름
+   *
+   * @throws {HttpException} 형식이 맞지 않거나 존재하지 않는 날짜
+   */
+  private validateSnapshotDate(value: string | undefined, name: string): void {
+    if (value === undefined) return;
+
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+      this.formatDate(new Date(value)) !== value
+    ) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        `${name} must be a valid date in YYYY-MM-DD format`,
+      );
+    }
+  }
+
+  /**
+   * 스냅샷 기준 시간대(KST)의 오늘 날짜를 YYYY-MM-DD로 반환함
+   */
+  private today(): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: SNAPSHOT_TIME_ZONE,
+    }).format(new Date());
+  }
+
+  /**
+   * DATE 컬럼 값(UTC 자정)을 YYYY-MM-DD 문자열로 변환함
+   */
+  private formatDate(date: Date): string {
+    return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+  }
+}
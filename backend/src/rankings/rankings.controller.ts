@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { PaginationQueryDto } from '../users/dto/pagination-query.dto';
+import { UserIdParamDto } from '../users/dto/user-id-param.dto';
+import { RankingSnapshotsService } from './ranking-snapshots.service';
+import { JobCodeParamDto } from './dto/job-code-param.dto';
+import { RankMoversQueryDto } from './dto/rank-movers-query.dto';
+import { RankHistoryQueryDto } from './dto/rank-history-query.dto';
+
+@Controller('rankings')
+export class RankingsController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly rankingSnapshotsService: RankingSnapshotsService,
+  ) {}
+
+  @Get('jobs')
+  async getJobSummary() {
+    return this.usersService.getJobLeaderboardSummary();
+  }
+
+  @Get('jobs/:jobCode')
+  @HttpCode(HttpStatus.OK)
+  async getJobRanking(
+    @Param() { jobCode }: JobCodeParamDto,
+    @Query() { page = 1, pageSize = 10 }: PaginationQueryDto,
+  ) {
+    return this.usersService.getRankedUsers(page, pageSize, { jobCode });
+  }
+
+  @Get('movers')
+  async getRankMovers(@Query() { from, to, limit = 10 }: RankMoversQueryDto) {
+    return this.rankingSnapshotsService.getRankMovers(from, to, limit);
+  }
+
+  @Get('users/:userId/history')
+  async getUserRankHistory(
+    @Param() { userId }: UserIdParamDto,
+    @Query() { from, to }: RankHistoryQueryDto,
+  ) {
+    return this.rankingSnapshotsService.getUserRankHistory(userId, from, to);
+  }
+}
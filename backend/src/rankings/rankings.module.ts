@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RankingsController } from './rankings.controller';
+import { RankingSnapshotsService } from './ranking-snapshots.service';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [UsersModule],
+  controllers: [RankingsController],
+  providers: [RankingSnapshotsService],
+})
+export class RankingsModule {}
@@ -0,0 +1,15 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { BulkSelectionDto } from './bulk-selection.dto';
+
+/**
+ * 유저 일괄 삭제 요청 본문
+ *
+ * @remarks
+ * 대상은 userIds 또는 filter로 선택함 (BulkSelectionDto 참고)
+ * dryRun이 true이면 삭제하지 않고 삭제될 유저 수와 일부 목록만 반환함
+ */
+export class BulkDeleteUsersDto extends BulkSelectionDto {
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
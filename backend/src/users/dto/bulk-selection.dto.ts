@@ -0,0 +1,35 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+} from 'class-validator';
+
+/**
+ * 일괄 작업 대상 선택
+ *
+ * @remarks
+ * userIds와 filter 중 하나만 지정해야 함
+ * filter는 랭킹/검색 API의 필터 쿼리 파라미터(levelMin, jobs 등)와 같은 이름과 형식을 사용함
+ */
+export class BulkSelectionDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @Length(1, 30, { each: true })
+  @Matches(/^[^<>{}[\]\\]+$/, {
+    each: true,
+    message: 'userIds contains invalid characters',
+  })
+  userIds?: string[];
+
+  @IsOptional()
+  @IsObject()
+  filter?: Record<string, string | number>;
+}
@@ -0,0 +1,97 @@
+import { PartialType, PickType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDefined,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { BulkSelectionDto } from './bulk-selection.dto';
+import { CreateUserDto, MAX_INT } from './create-user.dto';
+import { IsBigIntValue } from '../../common/validators/is-bigint-value';
+import { MAX_BIGINT } from '../../common/utils/bigint';
+
+/**
+ * 일괄 수정에서 지정한 값으로 덮어쓸 필드 (형식은 유저 생성 요청과 같음)
+ */
+export class BulkSetFieldsDto extends PartialType(
+  PickType(CreateUserDto, [
+    'job',
+    'jobCode',
+    'level',
+    'meso',
+    'exp',
+    'playTime',
+  ] as const),
+) {}
+
+/**
+ * 일괄 수정에서 현재 값에 더할 숫자 필드 (음수이면 감소, NULL인 값은 그대로 둠)
+ *
+ * @remarks
+ * meso와 exp는 BIGINT 컬럼이므로 정수 문자열로도 전달할 수 있음
+ * jobCode는 직업 목록의 코드를 가리키므로 더할 수 없고 set으로만 바꿀 수 있음
+ */
+export class BulkIncrementFieldsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(-MAX_INT)
+  @Max(MAX_INT)
+  level?: number;
+
+  @IsOptional()
+  @IsBigIntValue(-MAX_BIGINT, MAX_BIGINT)
+  meso?: bigint;
+
+  @IsOptional()
+  @IsBigIntValue(-MAX_BIGINT, MAX_BIGINT)
+  exp?: bigint;
+
+  @IsOptional()
+  @IsInt()
+  @Min(-MAX_INT)
+  @Max(MAX_INT)
+  playTime?: number;
+}
+
+/**
+ * 일괄 수정 패치 (set과 increment에 같은 필드를 함께 지정할 수 없음)
+ */
+export class BulkUserPatchDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkSetFieldsDto)
+  set?: BulkSetFieldsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkIncrementFieldsDto)
+  increment?: BulkIncrementFieldsDto;
+}
+
+/**
+ * 유저 일괄 수정 요청 본문
+ *
+ * @remarks
+ * 대상은 userIds 또는 filter로 선택함 (BulkSelectionDto 참고)
+ * dryRun이 true이면 수정하지 않고 바뀔 유저와 변경 내용만 반환함
+ *
+ * set의 job/jobCode는 직업 목록과 일치해야 하며, 하나만 지정하면 직업 목록에서 나머지를 채움
+ *
+ * @example
+ * { "filter": { "jobCodes": "411" }, "patch": { "set": { "jobCode": 412 } }, "dryRun": true }
+ * { "filter": { "levelMin": "120" }, "patch": { "increment": { "exp": "1000000" } } }
+ */
+export class BulkUpdateUsersDto extends BulkSelectionDto {
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => BulkUserPatchDto)
+  patch: BulkUserPatchDto;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,71 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { IsBigIntValue } from '../../common/validators/is-bigint-value';
+import { MAX_BIGINT } from '../../common/utils/bigint';
+
+/**
+ * INT 컬럼에 저장할 수 있는 최댓값
+ */
+export const MAX_INT = 2147483647;
+
+/**
+ * 유저 생성 요청 본문
+ *
+ * @remarks
+ * 숫자 필드는 JSON 숫자로 전달해야 하며, 선택 필드는 생략하거나 null로 비워 둘 수 있음
+ * meso와 exp는 BIGINT 컬럼이므로 정수 문자열로도 전달할 수 있음 (응답에서는 항상 문자열)
+ * jobCode는 직업 목록(GET /jobs)의 code, job은 그 직업의 nameKo와 일치해야 하며, 하나만 주면 나머지를 채움 (서비스에서 검사)
+ */
+export class CreateUserDto {
+  @IsString()
+  @Length(1, 30)
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message: 'userId can only contain letters, numbers, "_" and "-"',
+  })
+  userId: string;
+
+  @IsString()
+  @Length(2, 16)
+  @Matches(/^[A-Za-z0-9가-힣_]+$/, {
+    message: 'nickname can only contain Korean, letters, numbers and "_"',
+  })
+  nickname: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INT)
+  level: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 30)
+  @Matches(/^[^<>{}[\]\\]+$/, { message: 'job contains invalid characters' })
+  job?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_INT)
+  jobCode?: number | null;
+
+  @IsOptional()
+  @IsBigIntValue(0n, MAX_BIGINT)
+  meso?: bigint | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_INT)
+  playTime?: number | null;
+
+  @IsOptional()
+  @IsBigIntValue(0n, MAX_BIGINT)
+  exp?: bigint | null;
+}
@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * 페이지 번호 기반 목록 조회의 쿼리 파라미터
+ *
+ * @remarks
+ * 생략하면 각 API의 기본값(page 1, pageSize는 API마다 다름)을 사용함
+ */
+export class PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  pageSize?: number;
+}
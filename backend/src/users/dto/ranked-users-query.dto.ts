@@ -0,0 +1,58 @@
+import { IntersectionType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Min,
+} from 'class-validator';
+import {
+  RANKING_SORT_BY,
+  RankingSortBy,
+  SortDirection,
+} from '../utils/ranking-cursor';
+import { PaginationQueryDto } from './pagination-query.dto';
+import { UserFilterQueryDto } from './user-filter-query.dto';
+
+/**
+ * 랭킹 조회(GET /users/ranked) 쿼리 파라미터
+ *
+ * @remarks
+ * cursor가 있거나 mode가 cursor이면 키셋 페이지네이션을 사용하며 page는 무시함
+ * job 또는 jobCode가 주어지면 해당 직업 내 랭킹으로 한정함
+ */
+export class RankedUsersQueryDto extends IntersectionType(
+  PaginationQueryDto,
+  UserFilterQueryDto,
+) {
+  @IsOptional()
+  @IsIn(['offset', 'cursor'])
+  mode?: 'offset' | 'cursor';
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 30)
+  @Matches(/^[^<>{}[\]\\]+$/, { message: 'job contains invalid characters' })
+  job?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  jobCode?: number;
+
+  @IsOptional()
+  @IsIn(RANKING_SORT_BY)
+  sortBy?: RankingSortBy;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: SortDirection;
+}
@@ -0,0 +1,45 @@
+import { IntersectionType } from '@nestjs/mapped-types';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+import { PaginationQueryDto } from './pagination-query.dto';
+import { UserFilterQueryDto } from './user-filter-query.dto';
+
+/**
+ * 유저 검색(GET /users/search) 쿼리 파라미터
+ *
+ * @remarks
+ * q가 있으면 질의어로 검색하고 keyword는 무시함 (질의어 문법은 파싱 단계에서 검사)
+ * q가 없으면 keyword가 필요하며, 앞뒤 공백을 제거한 뒤 검사함
+ */
+export class SearchUsersQueryDto extends IntersectionType(
+  PaginationQueryDto,
+  UserFilterQueryDto,
+) {
+  @ValidateIf((query: SearchUsersQueryDto) => query.q === undefined)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString({ message: 'keyword or q is required' })
+  @Length(2, 30)
+  @Matches(/^[^<>{}[\]\\]+$/, {
+    message: 'keyword contains invalid characters',
+  })
+  keyword?: string;
+
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  // 이전 닉네임도 검색할지 여부 (true / false)
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  includeFormerNicknames?: boolean;
+}
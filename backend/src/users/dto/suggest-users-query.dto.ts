@@ -0,0 +1,13 @@
+import { Transform } from 'class-transformer';
+import { IsString, Length, Matches } from 'class-validator';
+
+/**
+ * 자동완성(GET /users/suggest) 쿼리 파라미터
+ */
+export class SuggestUsersQueryDto {
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @Length(1, 30)
+  @Matches(/^[^<>{}[\]\\]+$/, { message: 'q contains invalid characters' })
+  q: string;
+}
@@ -0,0 +1,12 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateUserDto } from './create-user.dto';
+
+/**
+ * 유저 수정 요청 본문
+ *
+ * @remarks
+ * 전달한 필드만 수정하며, userId는 경로 파라미터로 식별하므로 변경할 수 없음
+ */
+export class UpdateUserDto extends PartialType(
+  OmitType(CreateUserDto, ['userId'] as const),
+) {}
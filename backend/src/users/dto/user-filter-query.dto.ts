@@ -0,0 +1,67 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * 랭킹/검색 결과를 좁히는 필터 쿼리 파라미터
+ *
+ * @remarks
+ * 값의 형식과 범위는 parseUserFilterQuery로 변환한 뒤 서비스에서 검사함
+ * 같은 파라미터를 반복하면(?jobs=a&jobs=b) 배열로 전달됨
+ * 필드 목록은 USER_FILTER_PARAMS와 같아야 함
+ */
+export class UserFilterQueryDto {
+  @IsOptional()
+  @IsString({ each: true })
+  levelMin?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  levelMax?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  expMin?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  expMax?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  mesoMin?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  mesoMax?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  playTimeMin?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  playTimeMax?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  createdFrom?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  createdTo?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  updatedFrom?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  updatedTo?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  jobs?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  jobCodes?: string | string[];
+}
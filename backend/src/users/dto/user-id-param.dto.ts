@@ -0,0 +1,11 @@
+import { IsString, Length, Matches } from 'class-validator';
+
+/**
+ * :userId 경로 파라미터
+ */
+export class UserIdParamDto {
+  @IsString()
+  @Length(1, 30)
+  @Matches(/^[^<>{}[\]\\]+$/, { message: 'userId contains invalid characters' })
+  userId: string;
+}
@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * 유저 진행 이력 조회(GET /users/:userId/progress) 쿼리 파라미터
+ */
+export class UserProgressQueryDto {
+  // 반환할 최대 기록 수 (기본 365)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * 유저 순위 조회(GET /users/:userId/rank) 쿼리 파라미터
+ */
+export class UserRankQueryDto {
+  // 위아래로 함께 조회할 유저 수 (기본 5)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  neighbors?: number;
+}
@@ -0,0 +1,12 @@
+import { RankingSortBy, SortDirection } from '../utils/ranking-cursor';
+
+/**
+ * 랭킹 정렬 기준
+ *
+ * @remarks
+ * 생략된 항목은 기본값(레벨 기준, 내림차순)을 따름
+ */
+export interface RankingCriteria {
+  sortBy?: RankingSortBy;
+  order?: SortDirection;
+}
@@ -0,0 +1,11 @@
+/**
+ * 랭킹 범위
+ *
+ * @remarks
+ * 지정된 조건에 해당하는 유저만 대상으로 순위를 계산함 (직업별 랭킹 등)
+ * 아무 조건도 없으면 전체 랭킹을 의미함
+ */
+export interface RankingScope {
+  job?: string;
+  jobCode?: number;
+}
@@ -0,0 +1,39 @@
+/**
+ * 숫자 컬럼의 범위 조건 (양 끝 포함)
+ *
+ * @remarks
+ * BIGINT 컬럼(exp, meso)의 범위는 bigint로 파싱됨
+ */
+export interface NumericRange {
+  min?: number | bigint;
+  max?: number | bigint;
+}
+
+/**
+ * 날짜 컬럼의 범위 조건 (YYYY-MM-DD 또는 ISO 8601 날짜/시간, 양 끝 포함)
+ *
+ * @remarks
+ * 시간 없이 날짜만 주어진 to는 해당 날짜의 마지막 시각까지 포함함
+ */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * 유저 목록 필터
+ *
+ * @remarks
+ * 랭킹 범위(RankingScope)와 달리 순위 계산 대상은 바꾸지 않고 조회 결과만 좁힘
+ * 모든 조건은 AND로 결합되며, jobs/jobCodes는 목록 중 하나와 일치하면 됨
+ */
+export interface UserFilter {
+  level?: NumericRange;
+  exp?: NumericRange;
+  meso?: NumericRange;
+  playTime?: NumericRange;
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  jobs?: string[];
+  jobCodes?: number[];
+}
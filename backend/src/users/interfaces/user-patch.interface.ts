@@ -0,0 +1,42 @@
+/**
+ * 일괄 수정으로 값을 덮어쓸 수 있는 필드
+ */
+export type UserPatchSetField =
+  | 'job'
+  | 'jobCode'
+  | 'level'
+  | 'meso'
+  | 'exp'
+  | 'playTime';
+
+/**
+ * 일괄 수정으로 현재 값에 더할 수 있는 숫자 필드 (jobCode는 직업 목록을 가리키는 코드라 더할 수 없음)
+ */
+export type UserPatchIncrementField = Exclude<
+  UserPatchSetField,
+  'job' | 'jobCode'
+>;
+
+/**
+ * 여러 유저에 한 번에 적용할 수정 내용
+ *
+ * @remarks
+ * set은 값을 덮어쓰고, increment는 현재 값에 더함 (NULL인 값은 그대로 둠)
+ * 한 필드는 set과 increment 중 한 곳에만 지정할 수 있음
+ */
+export interface UserPatch {
+  set?: {
+    job?: string | null;
+    jobCode?: number | null;
+    level?: number;
+    meso?: bigint | null;
+    exp?: bigint | null;
+    playTime?: number | null;
+  };
+  increment?: {
+    level?: number;
+    meso?: bigint;
+    exp?: bigint;
+    playTime?: number;
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * 쓰기 요청의 사전 조건 (낙관적 동시성 제어)
+ *
+ * @remarks
+ * 둘 중 하나라도 주어지면 유저의 현재 updatedAt과 일치할 때만 쓰기를 수행함
+ * 둘 다 없으면 조건 없이 수행함
+ *
+ * - ifMatch: If-Match 헤더 값 (ETag `"<epoch ms>"` 또는 `*`)
+ * - expectedUpdatedAt: 클라이언트가 마지막으로 본 updatedAt (ISO 8601)
+ */
+export interface WritePrecondition {
+  ifMatch?: string;
+  expectedUpdatedAt?: string;
+}
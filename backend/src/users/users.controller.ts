@@ -1,5 +1,32 @@
-import { Controller, Get, Query, Delete, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Query,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Patch,
+  Body,
+  Headers,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
 import { UsersService } from './users.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { BulkDeleteUsersDto } from './dto/bulk-delete-users.dto';
+import { BulkUpdateUsersDto } from './dto/bulk-update-users.dto';
+import { RankedUsersQueryDto } from './dto/ranked-users-query.dto';
+import { SearchUsersQueryDto } from './dto/search-users-query.dto';
+import { SuggestUsersQueryDto } from './dto/suggest-users-query.dto';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { UserIdParamDto } from './dto/user-id-param.dto';
+import { UserRankQueryDto } from './dto/user-rank-query.dto';
+import { UserProgressQueryDto } from './dto/user-progress-query.dto';
+import { parseUserFilterQuery } from './utils/user-filter';
+import { toETag } from './utils/user-version';
 
 @Controller('users')
 export class UsersController {
@@ -7,25 +34,172 @@ export class UsersController {
 
   @Get('ranked')
   @HttpCode(HttpStatus.OK)
-  async getRanked(
-    @Query('page') page: string,
-    @Query('pageSize') pageSize: string,
-  ) {
-    // Parse query params to integers (with fallback defaults)
-    const pageNum = parseInt(page, 10) || 1;
-    const pageSizeNum = parseInt(pageSize, 10) || 10;
+  async getRanked(@Query() query: RankedUsersQueryDto) {
+    const { page = 1, pageSize = 10, mode, cursor } = query;
+
+    // job 또는 jobCode가 주어지면 해당 직업 내 랭킹으로 한정
+    const scope = { job: query.job, jobCode: query.jobCode };
+    const criteria = { sortBy: query.sortBy, order: query.order };
+    // 레벨/경험치/메소 범위, 직업 목록 등 결과를 좁히는 필터
+    const filter = parseUserFilterQuery(query);
+
+    // cursor가 전달되었거나 mode=cursor이면 키셋 페이지네이션 사용
+    if (mode === 'cursor' || cursor !== undefined) {
+      return this.usersService.getRankedUsersByCursor(
+        cursor,
+        pageSize,
+        scope,
+        criteria,
+        filter,
+      );
+    }
 
-    return this.usersService.getRankedUsers(pageNum, pageSizeNum);
+    return this.usersService.getRankedUsers(
+      page,
+      pageSize,
+      scope,
+      criteria,
+      filter,
+    );
   }
 
   @Get('search')
-  async search(@Query('keyword') keyword: string) {
-    return this.usersService.searchUsersByKeyword(keyword);
+  async search(@Query() query: SearchUsersQueryDto) {
+    const { keyword, q, page = 1, pageSize = 50 } = query;
+    // includeFormerNicknames=true이면 이전 닉네임도 검색
+    const withFormerNicknames = query.includeFormerNicknames ?? false;
+
+    // q가 전달되면 필드 조건, 비교 연산자, 부정을 지원하는 질의어로 검색
+    if (q !== undefined) {
+      return this.usersService.searchUsersByQuery(
+        q,
+        page,
+        pageSize,
+        parseUserFilterQuery(query),
+        withFormerNicknames,
+      );
+    }
+
+    return this.usersService.searchUsersByKeyword(
+      keyword,
+      page,
+      pageSize,
+      parseUserFilterQuery(query),
+      withFormerNicknames,
+    );
+  }
+
+  @Get('suggest')
+  async suggest(@Query() { q }: SuggestUsersQueryDto) {
+    return this.usersService.suggestUsers(q);
+  }
+
+  // 휴지통 목록 (':userId' 라우트보다 먼저 선언해야 함)
+  @Get('trash')
+  async getTrash(@Query() { page = 1, pageSize = 50 }: PaginationQueryDto) {
+    return this.usersService.getTrashedUsers(page, pageSize);
+  }
+
+  // 레벨에 비해 불가능한 경험치를 가진 유저 목록 (데이터 품질 점검용)
+  @Get('data-quality/exp')
+  async getExpAnomalies(
+    @Query() { page = 1, pageSize = 50 }: PaginationQueryDto,
+  ) {
+    return this.usersService.getExpAnomalies(page, pageSize);
+  }
+
+  @Get(':userId/rank')
+  async getUserRank(
+    @Param() { userId }: UserIdParamDto,
+    @Query() { neighbors = 5 }: UserRankQueryDto,
+  ) {
+    return this.usersService.getUserRank(userId, neighbors);
   }
 
+  @Get(':userId/progress')
+  async getUserProgress(
+    @Param() { userId }: UserIdParamDto,
+    @Query() { limit = 365 }: UserProgressQueryDto,
+  ) {
+    return this.usersService.getUserProgress(userId, limit);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createUser(
+    @Body() dto: CreateUserDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = await this.usersService.createUser(dto);
+    res.setHeader('ETag', toETag(user.updatedAt));
+    return user;
+  }
+
+  // If-Match 헤더 또는 expectedUpdatedAt이 주어지면 해당 버전일 때만 수정 (불일치 시 409)
+  @Patch(':userId')
+  @HttpCode(HttpStatus.OK)
+  async updateUser(
+    @Param() { userId }: UserIdParamDto,
+    @Body() dto: UpdateUserDto,
+    @Headers('if-match') ifMatch: string,
+    @Query('expectedUpdatedAt') expectedUpdatedAt: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = await this.usersService.updateUser(userId, dto, {
+      ifMatch,
+      expectedUpdatedAt,
+    });
+    res.setHeader('ETag', toETag(user.updatedAt));
+    return user;
+  }
+
+  // userIds 또는 filter로 선택한 유저를 휴지통으로 이동 (dryRun이면 미리보기만)
+  @Post('bulk-delete')
+  @HttpCode(HttpStatus.OK)
+  async bulkDelete(@Body() dto: BulkDeleteUsersDto) {
+    return this.usersService.bulkDeleteUsers(dto);
+  }
+
+  // userIds 또는 filter로 선택한 유저에게 같은 패치를 적용 (dryRun이면 미리보기만)
+  @Post('bulk-update')
+  @HttpCode(HttpStatus.OK)
+  async bulkUpdate(@Body() dto: BulkUpdateUsersDto) {
+    return this.usersService.bulkUpdateUsers(dto);
+  }
+
+  @Post(':userId/restore')
+  @HttpCode(HttpStatus.OK)
+  async restoreUser(
+    @Param() { userId }: UserIdParamDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = await this.usersService.restoreUser(userId);
+    res.setHeader('ETag', toETag(user.updatedAt));
+    return user;
+  }
+
+  @Get(':userId')
+  async getUser(
+    @Param() { userId }: UserIdParamDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = await this.usersService.getUserDetail(userId);
+    res.setHeader('ETag', toETag(user.updatedAt));
+    return user;
+  }
+
+  // 휴지통으로 이동 (POST :userId/restore로 복원 가능)
+  // If-Match 헤더 또는 expectedUpdatedAt이 주어지면 해당 버전일 때만 삭제 (불일치 시 409)
   @Delete(':userId')
   @HttpCode(HttpStatus.OK)
-  async deleteUser(@Param('userId') userId: string) {
-    return this.usersService.deleteUserByUserId(userId);
+  async deleteUser(
+    @Param() { userId }: UserIdParamDto,
+    @Headers('if-match') ifMatch: string,
+    @Query('expectedUpdatedAt') expectedUpdatedAt: string,
+  ) {
+    return this.usersService.deleteUserByUserId(userId, {
+      ifMatch,
+      expectedUpdatedAt,
+    });
   }
 } 
\ No newline at end of file
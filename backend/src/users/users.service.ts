@@ -1,6 +1,136 @@
-import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { Injectable, HttpStatus, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../prisma/prisma.service';
-import { User } from '@prisma/client';
+import { ApiException } from '../common/errors/api.exception';
+import { MAX_BIGINT, parseBigInt } from '../common/utils/bigint';
+import { Prisma } from '@prisma/client';
+import {
+  SortKey,
+  buildKeysetWhere,
+  buildOrderBy,
+  decodeCursor,
+  encodeCursor,
+  getRankingSortKeys,
+} from './utils/ranking-cursor';
+import {
+  RankTiePolicy,
+  parseRankTiePolicy,
+  pageRanksSql,
+  sortKeysToSql,
+} from './utils/rank-window';
+import {
+  SEARCH_MATCH_TYPES,
+  escapeLikePattern,
+  prefixUpperBound,
+} from './utils/search-pattern';
+import {
+  buildHangulSearchTerm,
+  buildNicknameSearchFields,
+} from './utils/hangul';
+import { recordNicknameChange } from './utils/nickname-history';
+import { checkJobPair, createJobLookup } from '../jobs/utils/job-catalog';
+import { LevelCurveService } from '../levels/level-curve.service';
+import { LevelProgress } from '../levels/utils/level-curve';
+import {
+  USER_PROGRESS_FIELDS,
+  UserProgressValues,
+  applyUserProgressChanges,
+  buildUserProgressEntry,
+  recordUserProgress,
+} from './utils/user-progress';
+import { RankingScope } from './interfaces/ranking-scope.interface';
+import { RankingCriteria } from './interfaces/ranking-criteria.interface';
+import { WritePrecondition } from './interfaces/write-precondition.interface';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { BulkDeleteUsersDto } from './dto/bulk-delete-users.dto';
+import { BulkSelectionDto } from './dto/bulk-selection.dto';
+import { BulkUpdateUsersDto } from './dto/bulk-update-users.dto';
+import { UserPatch } from './interfaces/user-patch.interface';
+import {
+  buildPatchChangeWhere,
+  buildPatchData,
+  buildPatchOutOfRangeWhere,
+  diffUserPatch,
+  getPatchedFields,
+} from './utils/user-patch';
+import {
+  DateRange,
+  NumericRange,
+  UserFilter,
+} from './interfaces/user-filter.interface';
+import {
+  BIGINT_FILTER_FIELDS,
+  USER_FILTER_PARAMS,
+  buildUserFilterSql,
+  buildUserFilterWhere,
+  parseUserFilterQuery,
+} from './utils/user-filter';
+import { parseExpectedUpdatedAt, parseIfMatch } from './utils/user-version';
+import {
+  ParsedUserQuery,
+  UserQueryParseError,
+  parseUserQuery,
+} from './utils/user-query';
+
+/**
+ * 랭킹 조회 시 반환하는 유저 컬럼
+ */
+const rankedUserSelect = {
+  id: true,
+  userId: true,
+  nickname: true,
+  level: true,
+  job: true,
+  jobCode: true,
+  meso: true,
+  playTime: true,
+  exp: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * 진행 이력(UserProgress)에 기록하는 필드 (level, exp, meso, playTime)
+ */
+const userProgressSelect = {
+  level: true,
+  exp: true,
+  meso: true,
+  playTime: true,
+} satisfies Prisma.UserSelect;
+
+type RankedUserRow = Prisma.UserGetPayload<{ select: typeof rankedUserSelect }>;
+
+/**
+ * 휴지통에 있지 않은 유저 조건
+ *
+ * @remarks
+ * 랭킹, 검색, 순위 계산, 상세 조회는 모두 이 조건으로 휴지통의 유저를 제외함
+ * (SQL 쿼리에서는 activeUserSql을 사용)
+ */
+const activeUserWhere = { deletedAt: null } satisfies Prisma.UserWhereInput;
+
+const activeUserSql = Prisma.sql`"deletedAt" IS NULL`;
+
+/**
+ * 일괄 수정 한 번에 바꿀 수 있는 최대 유저 수
+ */
+const MAX_BULK_UPDATE_USERS = 10000;
+
+/**
+ * 일괄 수정 미리보기에서 반환하는 변경 내역 수
+ */
+const BULK_UPDATE_PREVIEW_SIZE = 20;
+
+/**
+ * 휴지통 조회 시 반환하는 유저 컬럼
+ */
+const trashedUserSelect = {
+  ...rankedUserSelect,
+  deletedAt: true,
+} satisfies Prisma.UserSelect;
 
 /**
  * 유저 관련 비즈니스 로직을 처리하는 서비스 클래스
@@ -8,6 +138,9 @@ import { User } from '@prisma/client';
  * @remarks
  * 유저의 랭킹 조회, 검색, 삭제 등의 핵심 기능을 제공함
  * Prisma ORM을 통해 데이터베이스와 상호작용하며, 모든 데이터 접근은 이 서비스를 통해 이루어짐
+ * 요청 형식(페이지 파라미터, userId, 검색어 길이 등)은 컨트롤러의 DTO에서 검사하며,
+ * 이 서비스는 여러 값에 걸친 규칙과 데이터에 따라 달라지는 규칙만 검사함
+ * DB 에러는 잡지 않고 전파하며, 전역 ApiExceptionFilter가 상태 코드별 응답으로 변환함
  * 
  * @example
  * ```typescript
@@ -20,273 +153,2012 @@ import { User } from '@prisma/client';
  */
 @Injectable()
 export class UsersService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(UsersService.name);
+  private readonly rankTiePolicy: RankTiePolicy;
+  private readonly defaultSortKeys: SortKey[];
+  private readonly trashRetentionDays: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly levelCurveService: LevelCurveService,
+  ) {
+    this.rankTiePolicy = parseRankTiePolicy(
+      this.configService.get<string>('RANK_TIE_POLICY'),
+    );
+    this.defaultSortKeys = getRankingSortKeys(this.rankTiePolicy);
+    this.trashRetentionDays = this.configService.get<number>(
+      'TRASH_RETENTION_DAYS',
+    );
+  }
 
   /**
    * 유저들의 레벨과 경험치 기준 상위 랭킹을 페이지네이션하여 조회함
    * 
    * @param page - 조회할 페이지 번호 (1부터 시작)
    * @param pageSize - 한 페이지당 표시할 유저 수 (최대 1000)
+   * @param scope - 랭킹 범위 (직업명 또는 직업 코드, 생략 시 전체 랭킹)
+   * @param criteria - 정렬 기준 (level, meso, playTime)과 방향, 생략 시 레벨 내림차순
+   * @param filter - 조회 결과를 좁힐 필터 (순위는 필터와 관계없이 랭킹 범위 기준으로 계산됨)
    * 
    * @throws {HttpException} 
-   * - 유효하지 않은 페이지 파라미터
+   * - 유효하지 않은 랭킹 범위 또는 필터
    * - 존재하지 않는 페이지 요청
    * - DB 접근 오류
    * 
    * @returns {Promise<{
-   *   users: User[],
+   *   users: (User & { rank: number, requiredExp: bigint | null, expPercent: number | null })[],
    *   totalCount: number,
    *   currentPage: number,
    *   totalPages: number,
    *   hasMore: boolean
    * }>}
    */
-  async getRankedUsers(page: number, pageSize: number) {
-    this.validatePageParams(page, pageSize);
+  async getRankedUsers(
+    page: number,
+    pageSize: number,
+    scope: RankingScope = {},
+    criteria: RankingCriteria = {},
+    filter: UserFilter = {},
+  ) {
+    this.validateRankingScope(scope);
+    this.validateUserFilter(filter);
 
-    try {
-      // 전체 유저 수 조회
-      const totalUserCount = await this.prisma.user.count();
+    const sortKeys = this.getSortKeys(criteria);
+
+    const where: Prisma.UserWhereInput = {
+      AND: [this.buildScopeWhere(scope), buildUserFilterWhere(filter)],
+    };
+
+    // 랭킹 범위 내에서 필터에 일치하는 전체 유저 수 조회
+    const totalUserCount = await this.prisma.user.count({ where });
+
+    // 데이터가 없는 경우의 처리
+    if (totalUserCount === 0) {
+      return this.buildRankedUsersResponse([], 0, page, 0, false);
+    }
+
+    const totalPages = Math.ceil(totalUserCount / pageSize);
+
+    // 페이지 범위 초과 여부 확인
+    this.validatePageExists(page, totalPages);
+
+    const skip = (page - 1) * pageSize;
+
+    // 정렬 기준 키 순서대로 정렬하고, 동점 시 userId 오름차순으로 순서 고정
+    const users = await this.prisma.user.findMany({
+      where,
+      orderBy: buildOrderBy(sortKeys),
+      skip,
+      take: pageSize,
+      select: rankedUserSelect,
+    });
+    const rankedUsers = this.attachLevelProgress(
+      await this.attachRanks(users, scope, sortKeys),
+    );
+
+    const hasMore = skip + pageSize < totalUserCount;
+
+    return this.buildRankedUsersResponse(
+      rankedUsers,
+      totalUserCount,
+      page,
+      totalPages,
+      hasMore,
+    );
+  }
+
+  /**
+   * 커서(키셋) 방식으로 랭킹을 조회함
+   *
+   * @remarks
+   * OFFSET과 전체 카운트 없이 (level, exp, userId) 기준으로 탐색하므로
+   * 페이지 깊이와 관계없이 일정한 성능을 보장함
+   * 첫 페이지는 커서 없이 요청하고, 이후에는 응답의 nextCursor/prevCursor를 그대로 전달함
+   *
+   * @param cursor - 이전 응답에서 받은 커서 (없으면 첫 페이지)
+   * @param pageSize - 한 페이지당 표시할 유저 수 (최대 1000)
+   * @param scope - 랭킹 범위 (직업명 또는 직업 코드, 생략 시 전체 랭킹)
+   * @param criteria - 정렬 기준과 방향 (커서는 생성될 때의 정렬 기준에서만 유효함)
+   * @param filter - 조회 결과를 좁힐 필터 (페이지를 넘길 때 같은 필터를 전달해야 함)
+   *
+   * @throws {HttpException}
+   * - 유효하지 않은 커서, 랭킹 범위 또는 필터
+   * - DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   users: (User & { rank: number, requiredExp: bigint | null, expPercent: number | null })[],
+   *   pageSize: number,
+   *   nextCursor: string | null,
+   *   prevCursor: string | null,
+   *   hasMore: boolean
+   * }>}
+   */
+  async getRankedUsersByCursor(
+    cursor: string | undefined,
+    pageSize: number,
+    scope: RankingScope = {},
+    criteria: RankingCriteria = {},
+    filter: UserFilter = {},
+  ) {
+    this.validateRankingScope(scope);
+    this.validateUserFilter(filter);
+
+    const sortKeys = this.getSortKeys(criteria);
+    const decoded = cursor ? decodeCursor(cursor, sortKeys) : null;
+    if (cursor && !decoded) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'INVALID_CURSOR',
+        'Invalid cursor',
+      );
+    }
+
+    const direction = decoded?.direction ?? 'next';
+    const isBackward = direction === 'prev';
+
+    // 다음 페이지 존재 여부 확인을 위해 한 건 더 조회
+    const rows = await this.prisma.user.findMany({
+      where: {
+        AND: [
+          this.buildScopeWhere(scope),
+          buildUserFilterWhere(filter),
+          decoded ? buildKeysetWhere(sortKeys, decoded.values, direction) : {},
+        ],
+      },
+      orderBy: buildOrderBy(sortKeys, isBackward),
+      take: pageSize + 1,
+      select: rankedUserSelect,
+    });
+
+    const hasExtra = rows.length > pageSize;
+    const users = rows.slice(0, pageSize);
+    if (isBackward) {
+      users.reverse();
+    }
+
+    const first = users[0];
+    const last = users[users.length - 1];
+
+    // 이전 페이지 방향으로 왔다면 다음 페이지는 항상 존재하고,
+    // 다음 페이지 방향으로 왔다면 커서가 있었던 경우에만 이전 페이지가 존재함
+    const hasNext = isBackward ? users.length > 0 : hasExtra;
+    const hasPrev = isBackward
+      ? hasExtra
+      : Boolean(decoded) && users.length > 0;
+
+    return {
+      users: this.attachLevelProgress(
+        await this.attachRanks(users, scope, sortKeys),
+      ),
+      pageSize,
+      nextCursor: hasNext ? encodeCursor(sortKeys, last, 'next') : null,
+      prevCursor: hasPrev ? encodeCursor(sortKeys, first, 'prev') : null,
+      hasMore: hasNext,
+    };
+  }
+
+  /**
+   * 직업별 1위 유저 목록을 조회함
+   *
+   * @remarks
+   * 직업명이 없는 유저는 제외하며, 결과는 직업 코드와 직업명 순으로 정렬됨
+   *
+   * @throws {HttpException} DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   jobs: {
+   *     job: string,
+   *     jobCode: number | null,
+   *     playerCount: number,
+   *     topUser: { userId: string, nickname: string, level: number, exp: bigint | null }
+   *   }[]
+   * }>}
+   */
+  async getJobLeaderboardSummary() {
+    const rows = await this.prisma.$queryRaw<
+      {
+        job: string;
+        jobCode: number | null;
+        playerCount: number;
+        userId: string;
+        nickname: string;
+        level: number;
+        exp: bigint | null;
+      }[]
+    >`
+      SELECT * FROM (
+        SELECT DISTINCT ON ("job")
+          "job", "jobCode", "userId", "nickname", "level", "exp",
+          COUNT(*) OVER (PARTITION BY "job")::int AS "playerCount"
+        FROM "User"
+        WHERE "job" IS NOT NULL AND ${activeUserSql}
+        ORDER BY "job", ${sortKeysToSql(this.defaultSortKeys)}
+      ) top
+      ORDER BY "jobCode" ASC NULLS LAST, "job" ASC
+    `;
+
+    return {
+      jobs: rows.map(({ job, jobCode, playerCount, ...topUser }) => ({
+        job,
+        jobCode,
+        playerCount,
+        topUser,
+      })),
+    };
+  }
+
+  /**
+   * 유저 ID 또는 닉네임으로 유저를 검색하고 결과를 페이지네이션하여 반환함
+   *
+   * @remarks
+   * pg_trgm 트라이그램 유사도를 사용하여 오타가 있는 검색어도 찾을 수 있음
+   * 한글 검색어는 초성("ㅎㄱㄷ")이나 조합 중인 음절("홍기")로도 닉네임을 찾을 수 있음
+   * 결과는 일치 유형(exact → prefix → partial → former → fuzzy), 유사도, 레벨과 경험치 순으로 정렬됨
+   * totalCount는 현재 페이지가 아닌 검색 조건에 일치하는 전체 유저 수임
+   * includeFormerNicknames이면 이전 닉네임(NicknameHistory)도 검색하며,
+   * 검색어와 가장 비슷한 이전 닉네임을 formerNickname으로 함께 반환함
+   * 
+   * @param keyword - 검색할 키워드 (최소 2자, 최대 30자)
+   * @param page - 조회할 페이지 번호 (1부터 시작)
+   * @param pageSize - 한 페이지당 표시할 유저 수 (최대 1000)
+   * @param filter - 검색 결과를 좁힐 필터
+   * @param includeFormerNicknames - 이전 닉네임도 검색할지 여부
+   * 
+   * @throws {HttpException}
+   * - 유효하지 않은 필터
+   * - 존재하지 않는 페이지 요청
+   * - DB 접근 오류
+   * 
+   * @returns {Promise<{
+   *   searchResults: (User & {
+   *     rank: number,
+   *     matchType: SearchMatchType,
+   *     score: number,
+   *     formerNickname: string | null
+   *   })[],
+   *   totalCount: number,
+   *   currentPage: number,
+   *   totalPages: number,
+   *   hasMore: boolean,
+   *   keyword: string
+   * }>}
+   */
+  async searchUsersByKeyword(
+    keyword: string,
+    page = 1,
+    pageSize = 50,
+    filter: UserFilter = {},
+    includeFormerNicknames = false,
+  ) {
+    this.validateUserFilter(filter);
+
+    const trimmedKeyword = keyword.trim();
+    const escapedKeyword = escapeLikePattern(trimmedKeyword);
+    const prefixPattern = `${escapedKeyword}%`;
+    const containsPattern = `%${escapedKeyword}%`;
+    const hangul = this.buildHangulSearchConditions(trimmedKeyword);
+
+    // 이전 닉네임 중 검색어를 포함하거나 비슷한 것 (옵션을 켜지 않으면 항상 FALSE)
+    const formerNicknameCondition = Prisma.sql`
+      h."userId" = "User"."userId"
+      AND (h."nickname" ILIKE ${containsPattern} OR h."nickname" % ${trimmedKeyword})
+    `;
+    const formerMatch = includeFormerNicknames
+      ? Prisma.sql`EXISTS (SELECT 1 FROM "NicknameHistory" h WHERE ${formerNicknameCondition})`
+      : Prisma.sql`FALSE`;
+    const formerNickname = includeFormerNicknames
+      ? Prisma.sql`(
+          SELECT h."nickname" FROM "NicknameHistory" h
+          WHERE ${formerNicknameCondition}
+          ORDER BY similarity(h."nickname", ${trimmedKeyword}) DESC, h."changedAt" DESC
+          LIMIT 1
+        )`
+      : Prisma.sql`NULL::text`;
+
+    // 목록 조회와 전체 개수 조회가 같은 조건을 사용하도록 공유
+    const searchCondition = Prisma.sql`
+      (
+        "userId" ILIKE ${containsPattern}
+        OR "nickname" ILIKE ${containsPattern}
+        OR ${hangul.contains}
+        OR "userId" % ${trimmedKeyword}
+        OR "nickname" % ${trimmedKeyword}
+        OR ${formerMatch}
+      )
+      AND ${activeUserSql}
+      AND ${buildUserFilterSql(filter)}
+    `;
+
+    const [{ count: totalCount }] = await this.prisma.$queryRaw<
+      { count: number }[]
+    >`
+      SELECT COUNT(*)::int AS "count" FROM "User" WHERE ${searchCondition}
+    `;
+
+    const totalPages = Math.ceil(totalCount / pageSize);
+
+    // 페이지 범위 초과 여부 확인 (검색 결과가 없으면 빈 첫 페이지를 반환)
+    if (totalCount > 0) {
+      this.validatePageExists(page, totalPages);
+    }
+
+    const skip = (page - 1) * pageSize;
+
+    const rows =
+      totalCount === 0
+        ? []
+        : await this.prisma.$queryRaw<
+            (RankedUserRow & {
+              matchRank: number;
+              score: number;
+              formerNickname: string | null;
+            })[]
+          >`
+            SELECT
+              "id", "userId", "nickname", "level", "job", "jobCode",
+              "meso", "playTime", "exp", "createdAt", "updatedAt",
+              CASE
+                WHEN lower("userId") = lower(${trimmedKeyword})
+                  OR lower("nickname") = lower(${trimmedKeyword}) THEN 0
+                WHEN "userId" ILIKE ${prefixPattern}
+                  OR "nickname" ILIKE ${prefixPattern}
+                  OR ${hangul.prefix} THEN 1
+                WHEN "userId" ILIKE ${containsPattern}
+                  OR "nickname" ILIKE ${containsPattern}
+                  OR ${hangul.contains} THEN 2
+                WHEN ${formerMatch} THEN 3
+                ELSE 4
+              END AS "matchRank",
+              GREATEST(
+                similarity("userId", ${trimmedKeyword}),
+                similarity("nickname", ${trimmedKeyword})
+              )::float8 AS "score",
+              ${formerNickname} AS "formerNickname"
+            FROM "User"
+            WHERE ${searchCondition}
+            ORDER BY "matchRank" ASC, "score" DESC, ${sortKeysToSql(this.defaultSortKeys)}
+            LIMIT ${pageSize} OFFSET ${skip}
+          `;
+
+    const searchResults = rows.map(({ matchRank, score, ...user }) => ({
+      ...user,
+      matchType: SEARCH_MATCH_TYPES[matchRank],
+      score: Math.round(score * 1000) / 1000,
+    }));
+
+    return {
+      searchResults: await this.attachRanks(searchResults),
+      totalCount,
+      currentPage: page,
+      totalPages,
+      hasMore: skip + pageSize < totalCount,
+      keyword: trimmedKeyword,
+    };
+  }
+
+  /**
+   * 검색창 질의어(예: `level:>200 job:히어로 -nick:foo`)로 유저를 검색함
+   *
+   * @remarks
+   * 필드 조건이나 부정 없이 단어만 입력된 질의어는 searchUsersByKeyword의 관련도 검색으로 처리하고,
+   * 그 외에는 질의어를 Prisma where 절로 변환하여 기본 랭킹 순서(레벨 → 경험치)로 조회함
+   * 질의어 문법은 utils/user-query.ts 참고
+   *
+   * @param query - 검색창에 입력된 질의어
+   * @param page - 조회할 페이지 번호 (1부터 시작)
+   * @param pageSize - 한 페이지당 표시할 유저 수 (최대 1000)
+   * @param filter - 검색 결과를 좁힐 필터
+   * @param includeFormerNicknames - 단어만 입력된 질의어에서 이전 닉네임도 검색할지 여부
+   *
+   * @throws {HttpException}
+   * - 질의어 문법 오류 (응답 본문의 details.position, details.length로 문제가 된 토큰 위치를 알려줌)
+   * - 필드 조건 없이 2자 미만 또는 30자를 초과하는 질의어
+   * - 유효하지 않은 필터
+   * - 존재하지 않는 페이지 요청
+   * - DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   searchResults: (User & { rank: number })[],
+   *   totalCount: number,
+   *   currentPage: number,
+   *   totalPages: number,
+   *   hasMore: boolean,
+   *   keyword: string
+   * }>}
+   */
+  async searchUsersByQuery(
+    query: string,
+    page = 1,
+    pageSize = 50,
+    filter: UserFilter = {},
+    includeFormerNicknames = false,
+  ) {
+    this.validateUserFilter(filter);
 
-      // 데이터가 없는 경우의 처리
-      if (totalUserCount === 0) {
-        return this.buildRankedUsersResponse([], 0, page, 0, false);
+    const parsed = this.parseSearchQuery(query);
+
+    if (!parsed.qualified) {
+      // 필드 조건이 없는 질의어는 검색어 검색과 같은 길이 제한을 따름
+      const keyword = parsed.keywords.join(' ');
+      if (keyword.length < 2 || keyword.length > 30) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'INVALID_QUERY',
+          'Search keyword must be between 2 and 30 characters long',
+          { position: 0, length: query.length },
+        );
       }
 
-      const totalPages = Math.ceil(totalUserCount / pageSize);
+      return this.searchUsersByKeyword(
+        keyword,
+        page,
+        pageSize,
+        filter,
+        includeFormerNicknames,
+      );
+    }
+
+    const where: Prisma.UserWhereInput = {
+      AND: [activeUserWhere, parsed.where, buildUserFilterWhere(filter)],
+    };
+
+    const totalCount = await this.prisma.user.count({ where });
+    const totalPages = Math.ceil(totalCount / pageSize);
+
+    // 페이지 범위 초과 여부 확인 (검색 결과가 없으면 빈 첫 페이지를 반환)
+    if (totalCount > 0) {
+      this.validatePageExists(page, totalPages);
+    }
+
+    const skip = (page - 1) * pageSize;
+
+    const users = await this.prisma.user.findMany({
+      where,
+      orderBy: buildOrderBy(this.defaultSortKeys),
+      skip,
+      take: pageSize,
+      select: rankedUserSelect,
+    });
+
+    return {
+      searchResults: await this.attachRanks(users),
+      totalCount,
+      currentPage: page,
+      totalPages,
+      hasMore: skip + pageSize < totalCount,
+      keyword: query.trim(),
+    };
+  }
+
+  /**
+   * 검색창 자동완성을 위해 userId 또는 닉네임이 입력값으로 시작하는 유저를 조회함
+   *
+   * @remarks
+   * 키 입력마다 호출되므로 lower() 접두 인덱스의 범위 탐색(index-only scan)만 사용함
+   * 접두 인덱스는 휴지통에 없는 유저만 담는 부분 인덱스이므로 activeUserSql 조건을 함께 둬야 함
+   * userId 일치를 닉네임 일치보다 먼저 보여주며, 두 쪽에 모두 일치하는 유저는 한 번만 포함됨
+   *
+   * @param query - 입력 중인 검색어 (1자 이상 30자 이하, 대소문자 무시)
+   *
+   * @throws {HttpException} DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   suggestions: {
+   *     userId: string,
+   *     nickname: string,
+   *     level: number,
+   *     job: string | null,
+   *     matchedOn: 'userId' | 'nickname'
+   *   }[]
+   * }>}
+   */
+  async suggestUsers(query: string) {
+    const limit = 10;
+    const prefix = query.trim().toLowerCase();
+    const upperBound = prefixUpperBound(prefix);
+
+    // UNION ALL의 각 쪽이 자기 인덱스 순서대로 limit건만 읽도록 분리
+    const rows = await this.prisma.$queryRaw<
+      {
+        userId: string;
+        nickname: string;
+        level: number;
+        job: string | null;
+        matchedOn: 'userId' | 'nickname';
+      }[]
+    >`
+      (
+        SELECT "userId", "nickname", "level", "job", 'userId' AS "matchedOn"
+        FROM "User"
+        WHERE lower("userId") ~>=~ ${prefix} AND lower("userId") ~<~ ${upperBound}
+          AND ${activeUserSql}
+        ORDER BY lower("userId") USING ~<~
+        LIMIT ${limit}
+      )
+      UNION ALL
+      (
+        SELECT "userId", "nickname", "level", "job", 'nickname' AS "matchedOn"
+        FROM "User"
+        WHERE lower("nickname") ~>=~ ${prefix} AND lower("nickname") ~<~ ${upperBound}
+          AND ${activeUserSql}
+        ORDER BY lower("nickname") USING ~<~
+        LIMIT ${limit}
+      )
+    `;
+
+    const seen = new Set<string>();
+    const suggestions = rows
+      .sort((a, b) =>
+        a.matchedOn === b.matchedOn ? 0 : a.matchedOn === 'userId' ? -1 : 1,
+      )
+      .filter((row) => {
+        if (seen.has(row.userId)) return false;
+        seen.add(row.userId);
+        return true;
+      })
+      .slice(0, limit);
 
-      // 페이지 범위 초과 여부 확인
-      if (page > totalPages) {
-        throw new HttpException(
-          {
-            status: HttpStatus.NOT_FOUND,
-            error: 'Page not found',
-            message: `Page ${page} does not exist. Total pages: ${totalPages}`,
+    return { suggestions };
+  }
+
+  /**
+   * 특정 유저의 상세 정보와 파생 정보(전체 순위, 직업 내 순위, 계정 나이)를 조회함
+   *
+   * @remarks
+   * 순위는 기본 랭킹(레벨 → 경험치)과 RANK_TIE_POLICY 설정을 따름
+   * 직업이 없는 유저의 jobRank는 null이며, accountAgeDays는 생성일로부터 지난 일수(내림)임
+   * requiredExp, expPercent는 레벨-경험치 곡선 기준 다음 레벨까지의 필요 경험치와 진행률(%)임
+   * formerNicknames는 이전 닉네임 목록(최근 변경순)임
+   *
+   * @param userId - 조회할 유저의 고유 ID
+   *
+   * @throws {HttpException}
+   * - 존재하지 않는 유저
+   * - DB 접근 오류
+   *
+   * @returns {Promise<User & {
+   *   requiredExp: bigint | null,
+   *   expPercent: number | null,
+   *   globalRank: number,
+   *   jobRank: number | null,
+   *   accountAgeDays: number,
+   *   formerNicknames: { nickname: string, changedAt: Date }[]
+   * }>}
+   */
+  async getUserDetail(userId: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { userId, ...activeUserWhere },
+      select: rankedUserSelect,
+    });
+
+    if (!user) {
+      throw new ApiException(
+        HttpStatus.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+
+    const [[{ rank: globalRank }], jobRanked, formerNicknames] =
+      await Promise.all([
+        this.attachRanks([user]),
+        user.job !== null ? this.attachRanks([user], { job: user.job }) : null,
+        this.prisma.nicknameHistory.findMany({
+          where: { userId },
+          orderBy: { changedAt: 'desc' },
+          select: { nickname: true, changedAt: true },
+        }),
+      ]);
+
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    return {
+      ...user,
+      ...this.levelCurveService.getProgress(user.level, user.exp),
+      globalRank,
+      jobRank: jobRanked ? jobRanked[0].rank : null,
+      accountAgeDays: Math.floor(
+        (Date.now() - user.createdAt.getTime()) / dayMs,
+      ),
+      formerNicknames,
+    };
+  }
+
+  /**
+   * 특정 유저의 전체 순위와 위아래로 인접한 유저들을 조회함
+   *
+   * @remarks
+   * 인접 유저는 getRankedUsers와 동일한 정렬 순서(레벨 내림차순, 경험치 내림차순)를 따름
+   * 전체 유저를 정렬하지 않고, 인접 유저는 정렬 키 인덱스로 위아래 키셋 조회하며
+   * 순위는 앞선 유저 수를 세어 계산함 (attachRanks)
+   * percentile은 상위 백분율로, 예를 들어 0.5는 상위 0.5%를 의미함
+   *
+   * @param userId - 조회할 유저의 고유 ID
+   * @param neighbors - 위아래로 함께 조회할 유저 수 (0 ~ 50)
+   *
+   * @throws {HttpException}
+   * - 존재하지 않는 유저
+   * - DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   user: User & { rank: number },
+   *   rank: number,
+   *   percentile: number,
+   *   totalCount: number,
+   *   above: (User & { rank: number })[],
+   *   below: (User & { rank: number })[]
+   * }>}
+   */
+  async getUserRank(userId: string, neighbors: number) {
+    const user = await this.prisma.user.findFirst({
+      where: { userId, ...activeUserWhere },
+      select: rankedUserSelect,
+    });
+
+    if (!user) {
+      throw new ApiException(
+        HttpStatus.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+
+    const sortKeys = this.defaultSortKeys;
+    const values = sortKeys.map((key) => user[key.field]);
+
+    const [above, below, totalCount] = await Promise.all([
+      this.prisma.user.findMany({
+        where: {
+          AND: [activeUserWhere, buildKeysetWhere(sortKeys, values, 'prev')],
+        },
+        orderBy: buildOrderBy(sortKeys, true),
+        take: neighbors,
+        select: rankedUserSelect,
+      }),
+      this.prisma.user.findMany({
+        where: {
+          AND: [activeUserWhere, buildKeysetWhere(sortKeys, values, 'next')],
+        },
+        orderBy: buildOrderBy(sortKeys),
+        take: neighbors,
+        select: rankedUserSelect,
+      }),
+      this.prisma.user.count({ where: activeUserWhere }),
+    ]);
+
+    // 위쪽 인접 유저는 역순으로 조회되므로 랭킹 순서로 되돌린 뒤 한 번에 순위를 붙임
+    const ranked = await this.attachRanks([...above.reverse(), user, ...below]);
+    const target = ranked[above.length];
+
+    return {
+      user: target,
+      rank: target.rank,
+      percentile: Math.round((target.rank / totalCount) * 10000) / 100,
+      totalCount,
+      above: ranked.slice(0, above.length),
+      below: ranked.slice(above.length + 1),
+    };
+  }
+
+  /**
+   * 특정 유저의 진행 이력(레벨, 경험치, 메소, 플레이 타임 변화)을 조회함
+   *
+   * @remarks
+   * 가장 최근 limit개의 기록을 오래된 순서로 반환함
+   * 각 기록은 그 시점의 네 필드 값을 모두 담고 있음
+   *
+   * @param userId - 조회할 유저의 고유 ID
+   * @param limit - 반환할 최대 기록 수 (1 ~ 1000)
+   *
+   * @throws {HttpException}
+   * - 존재하지 않거나 휴지통에 있는 유저
+   * - DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   userId: string,
+   *   points: {
+   *     recordedAt: Date,
+   *     level: number,
+   *     exp: bigint | null,
+   *     meso: bigint | null,
+   *     playTime: number | null
+   *   }[]
+   * }>}
+   */
+  async getUserProgress(userId: string, limit: number) {
+    const user = await this.prisma.user.findFirst({
+      where: { userId, ...activeUserWhere },
+      select: { userId: true },
+    });
+
+    if (!user) {
+      throw new ApiException(
+        HttpStatus.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
+      );
+    }
+
+    const points = await this.prisma.userProgress.findMany({
+      where: { userId },
+      orderBy: { recordedAt: 'desc' },
+      take: limit,
+      select: { recordedAt: true, ...userProgressSelect },
+    });
+
+    return { userId, points: points.reverse() };
+  }
+
+  /**
+   * 레벨에 비해 불가능한 경험치를 가진 유저를 랭킹 순서로 페이지네이션하여 조회함 (데이터 품질 점검용)
+   *
+   * @remarks
+   * 레벨-경험치 곡선(LEVEL_EXP_CURVE_PATH)을 기준으로 다음 중 하나에 해당하는 유저를 찾음
+   * - 경험치가 다음 레벨 필요 경험치 이상 (EXP_EXCEEDS_REQUIRED)
+   * - 최고 레벨인데 경험치가 0보다 큼 (EXP_AT_MAX_LEVEL)
+   * - 레벨이 최고 레벨보다 높음 (LEVEL_ABOVE_MAX)
+   * 휴지통에 있는 유저는 제외함
+   *
+   * @param page - 조회할 페이지 번호 (1부터 시작)
+   * @param pageSize - 한 페이지당 표시할 유저 수 (최대 1000)
+   *
+   * @throws {HttpException}
+   * - 존재하지 않는 페이지 요청
+   * - DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   users: {
+   *     userId: string,
+   *     nickname: string,
+   *     level: number,
+   *     exp: bigint | null,
+   *     job: string | null,
+   *     requiredExp: bigint | null,
+   *     expPercent: number | null,
+   *     reason: 'EXP_EXCEEDS_REQUIRED' | 'EXP_AT_MAX_LEVEL' | 'LEVEL_ABOVE_MAX'
+   *   }[],
+   *   totalCount: number,
+   *   currentPage: number,
+   *   totalPages: number,
+   *   hasMore: boolean,
+   *   maxLevel: number
+   * }>}
+   */
+  async getExpAnomalies(page = 1, pageSize = 50) {
+    const { maxLevel, requiredExp } = this.levelCurveService.curve;
+    // 곡선을 (level, requiredExp) 행으로 펼쳐 유저의 레벨과 조인 (필요 경험치는 정밀도를 잃지 않도록 문자열로 전달)
+    const anomalyFromSql = Prisma.sql`
+      FROM "User" u
+      LEFT JOIN unnest(
+        ${[...requiredExp.keys()]}::int[],
+        ${[...requiredExp.values()].map(String)}::bigint[]
+      ) AS curve("level", "requiredExp") ON curve."level" = u."level"
+      WHERE u."deletedAt" IS NULL
+        AND (
+          u."level" > ${maxLevel}
+          OR (u."level" = ${maxLevel} AND u."exp" > 0)
+          OR u."exp" >= curve."requiredExp"
+        )
+    `;
+
+    const [{ totalCount }] = await this.prisma.$queryRaw<
+      { totalCount: number }[]
+    >`SELECT COUNT(*)::int AS "totalCount" ${anomalyFromSql}`;
+    const totalPages = Math.ceil(totalCount / pageSize);
+
+    // 페이지 범위 초과 여부 확인 (불가능한 경험치가 없으면 빈 첫 페이지를 반환)
+    if (totalCount > 0) {
+      this.validatePageExists(page, totalPages);
+    }
+
+    const skip = (page - 1) * pageSize;
+
+    const users = await this.prisma.$queryRaw<
+      Pick<
+        RankedUserRow,
+        'userId' | 'nickname' | 'level' | 'exp' | 'job' | 'jobCode'
+      >[]
+    >`
+      SELECT u."userId", u."nickname", u."level", u."exp", u."job", u."jobCode"
+      ${anomalyFromSql}
+      ORDER BY u."level" DESC, u."exp" DESC NULLS LAST, u."userId" ASC
+      LIMIT ${pageSize} OFFSET ${skip}
+    `;
+
+    return {
+      users: this.attachLevelProgress(users).map((user) => ({
+        ...user,
+        reason: this.levelCurveService.findAnomaly(user.level, user.exp),
+      })),
+      totalCount,
+      currentPage: page,
+      totalPages,
+      hasMore: skip + pageSize < totalCount,
+      maxLevel,
+    };
+  }
+
+  /**
+   * 새 유저를 생성함
+   *
+   * @remarks
+   * 닉네임 검색용 정규화 컬럼(nicknameJamo, nicknameChosung)을 함께 저장하고, 초기 진행 값을 이력에 남김
+   * 휴지통에 있는 유저의 userId도 영구 삭제되기 전까지는 사용할 수 없음
+   * job과 jobCode 중 하나만 주어지면 직업 목록에서 나머지를 채워 저장함
+   *
+   * @param dto - 유효성 검사를 통과한 유저 생성 요청
+   *
+   * @throws {HttpException}
+   * - 이미 존재하거나 휴지통에 있는 userId (409)
+   * - 직업 목록과 맞지 않는 job/jobCode
+   * - DB 접근 오류
+   *
+   * @returns {Promise<User>} 생성된 유저
+   */
+  async createUser(dto: CreateUserDto) {
+    try {
+      const existingUser = await this.prisma.user.findUnique({
+        where: { userId: dto.userId },
+        select: { userId: true, deletedAt: true },
+      });
+
+      if (existingUser?.deletedAt) {
+        throw new ApiException(
+          HttpStatus.CONFLICT,
+          'USER_IN_TRASH',
+          `User with userId ${dto.userId} is in the trash. Restore it instead`,
+        );
+      }
+      if (existingUser) {
+        throw this.userIdConflict(dto.userId);
+      }
+      const jobPair = await this.validateJobPair(
+        this.prisma,
+        dto.job ?? null,
+        dto.jobCode ?? null,
+      );
+
+      return await this.prisma.$transaction(async (tx) => {
+        const user = await tx.user.create({
+          data: {
+            ...dto,
+            ...jobPair,
+            ...buildNicknameSearchFields(dto.nickname),
           },
-          HttpStatus.NOT_FOUND,
+          select: rankedUserSelect,
+        });
+        await recordUserProgress(tx, [
+          buildUserProgressEntry(user.userId, null, user),
+        ]);
+        return user;
+      });
+    } catch (error) {
+      // 조회와 생성 사이에 같은 userId가 먼저 생성된 경우
+      if (this.isUniqueConstraintError(error)) {
+        throw this.userIdConflict(dto.userId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 유저 정보를 수정함
+   *
+   * @remarks
+   * 요청에 포함된 필드만 수정하며, 닉네임이 바뀌면 검색용 정규화 컬럼을 갱신하고 이전 닉네임을 이력에 남김
+   * level, exp, meso, playTime 중 하나라도 바뀌면 변경 후 값을 진행 이력(UserProgress)에 남김
+   * job과 jobCode 중 하나만 주어지면 직업 목록에서 나머지를 채워 함께 수정함 (null이면 둘 다 비움)
+   * 사전 조건이 주어지면 updatedAt 비교와 수정을 하나의 UPDATE 문으로 원자적으로 수행함
+   * 휴지통에 있는 유저는 존재하지 않는 유저로 취급함
+   *
+   * @param userId - 수정할 유저의 고유 ID
+   * @param dto - 유효성 검사를 통과한 유저 수정 요청
+   * @param precondition - 클라이언트가 본 유저 버전 (If-Match 또는 expectedUpdatedAt)
+   *
+   * @throws {HttpException}
+   * - 유효하지 않은 사전 조건 형식
+   * - 수정할 필드가 없거나 필수 필드(nickname, level)를 null로 지정한 요청
+   * - 존재하지 않는 유저
+   * - 직업 목록과 맞지 않는 job/jobCode
+   * - 클라이언트가 본 이후 변경된 유저 (409, 본문의 current에 현재 레코드 포함)
+   * - DB 접근 오류
+   *
+   * @returns {Promise<User>} 수정된 유저
+   */
+  async updateUser(
+    userId: string,
+    dto: UpdateUserDto,
+    precondition: WritePrecondition = {},
+  ) {
+    this.validateUserUpdate(dto);
+    const expectedUpdatedAt = this.resolveExpectedUpdatedAt(precondition);
+
+    const touchesProgress = USER_PROGRESS_FIELDS.some(
+      (field) => dto[field] !== undefined,
+    );
+    const jobPair =
+      dto.job !== undefined || dto.jobCode !== undefined
+        ? await this.validateJobPair(
+            this.prisma,
+            dto.job ?? null,
+            dto.jobCode ?? null,
+          )
+        : undefined;
+
+    const count = await this.prisma.$transaction(async (tx) => {
+      // 닉네임이나 진행 필드를 바꾸는 경우 이전 값을 이력에 남기기 위해 행을 잠그고 읽음
+      const [current] =
+        dto.nickname !== undefined || touchesProgress
+          ? await tx.$queryRaw<({ nickname: string } & UserProgressValues)[]>`
+              SELECT "nickname", "level", "exp", "meso", "playTime"
+              FROM "User"
+              WHERE "userId" = ${userId} AND ${activeUserSql}
+              FOR UPDATE
+            `
+          : [];
+
+      const { count } = await tx.user.updateMany({
+        where: {
+          userId,
+          ...activeUserWhere,
+          ...(expectedUpdatedAt && { updatedAt: expectedUpdatedAt }),
+        },
+        data: {
+          ...dto,
+          ...jobPair,
+          ...(dto.nickname !== undefined &&
+            buildNicknameSearchFields(dto.nickname)),
+        },
+      });
+
+      if (count > 0 && current) {
+        const { nickname, ...previous } = current;
+        if (dto.nickname !== undefined) {
+          await recordNicknameChange(tx, userId, nickname, dto.nickname);
+        }
+        await recordUserProgress(tx, [
+          buildUserProgressEntry(
+            userId,
+            previous,
+            applyUserProgressChanges(previous, dto),
+          ),
+        ]);
+      }
+      return count;
+    });
+
+    if (count === 0) {
+      await this.throwWriteFailure(userId);
+    }
+
+    return this.prisma.user.findUnique({
+      where: { userId },
+      select: rankedUserSelect,
+    });
+  }
+
+  /**
+   * 특정 유저를 휴지통으로 이동함 (소프트 삭제)
+   * 
+   * @remarks
+   * deletedAt을 기록하며, 휴지통의 유저는 restoreUser로 복원하기 전까지 랭킹과 검색에서 제외됨
+   * TRASH_RETENTION_DAYS가 지나면 purgeExpiredTrash가 영구 삭제함
+   * 사전 조건이 주어지면 updatedAt이 일치할 때만 삭제함 (비교와 삭제는 하나의 UPDATE 문으로 수행)
+   * 
+   * @param userId - 삭제할 유저의 고유 ID
+   * @param precondition - 클라이언트가 본 유저 버전 (If-Match 또는 expectedUpdatedAt)
+   * 
+   * @throws {HttpException}
+   * - 유효하지 않은 사전 조건 형식
+   * - 존재하지 않거나 이미 휴지통에 있는 유저
+   * - 클라이언트가 본 이후 변경된 유저 (409, 본문의 current에 현재 레코드 포함)
+   * - DB 접근 오류
+   * 
+   * @returns {Promise<{
+   *   success: boolean,
+   *   message: string,
+   *   deletedAt: Date
+   * }>}
+   */
+  async deleteUserByUserId(
+    userId: string,
+    precondition: WritePrecondition = {},
+  ) {
+    const expectedUpdatedAt = this.resolveExpectedUpdatedAt(precondition);
+
+    const deletedAt = new Date();
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        userId,
+        ...activeUserWhere,
+        ...(expectedUpdatedAt && { updatedAt: expectedUpdatedAt }),
+      },
+      data: { deletedAt },
+    });
+
+    if (count === 0) {
+      await this.throwWriteFailure(userId);
+    }
+
+    return {
+      success: true,
+      message: `User with userId ${userId} has been moved to the trash.`,
+      deletedAt,
+    };
+  }
+
+  /**
+   * userId 목록 또는 필터로 선택한 유저를 한 번에 휴지통으로 이동함
+   *
+   * @remarks
+   * dryRun이면 아무것도 바꾸지 않고 삭제될 유저 수와 기본 랭킹 순서의 상위 일부(sample)를 반환함
+   * 실제 삭제는 대상 조회와 삭제를 하나의 트랜잭션으로 수행하며, 이미 휴지통에 있는 유저는 제외됨
+   * userId 목록으로 요청하면 삭제 대상이 아닌(없거나 이미 휴지통에 있는) userId를 notFoundUserIds로 알려줌
+   *
+   * @param dto - 유효성 검사를 통과한 일괄 삭제 요청
+   *
+   * @throws {HttpException}
+   * - userIds와 filter를 모두 지정하거나 모두 생략한 요청
+   * - 비어 있거나 알 수 없는 파라미터가 포함된 filter
+   * - DB 접근 오류
+   *
+   * @returns {Promise<
+   *   | { dryRun: true, affectedCount: number, sample: User[], notFoundUserIds?: string[] }
+   *   | { dryRun: false, deletedCount: number, deletedAt: Date, notFoundUserIds?: string[] }
+   * >}
+   */
+  async bulkDeleteUsers(dto: BulkDeleteUsersDto) {
+    const where = this.buildBulkSelectionWhere(dto);
+    const requestedUserIds = dto.userIds && [...new Set(dto.userIds)];
+
+    // userId 목록으로 요청한 경우에만(최대 1000건) 선택된 userId를 조회하여 누락된 항목을 계산
+    const findNotFound = (selectedUserIds: string[]) => {
+      if (!requestedUserIds) return {};
+      const selected = new Set(selectedUserIds);
+      return {
+        notFoundUserIds: requestedUserIds.filter((id) => !selected.has(id)),
+      };
+    };
+
+    if (dto.dryRun) {
+      const [affectedCount, sample, selected] = await Promise.all([
+        this.prisma.user.count({ where }),
+        this.prisma.user.findMany({
+          where,
+          orderBy: buildOrderBy(this.defaultSortKeys),
+          take: 10,
+          select: rankedUserSelect,
+        }),
+        requestedUserIds
+          ? this.prisma.user.findMany({ where, select: { userId: true } })
+          : [],
+      ]);
+
+      return {
+        dryRun: true as const,
+        affectedCount,
+        sample,
+        ...findNotFound(selected.map((user) => user.userId)),
+      };
+    }
+
+    const deletedAt = new Date();
+    const { deletedCount, selectedUserIds } = await this.prisma.$transaction(
+      async (tx) => {
+        const selected = requestedUserIds
+          ? await tx.user.findMany({ where, select: { userId: true } })
+          : [];
+        const { count } = await tx.user.updateMany({
+          where,
+          data: { deletedAt },
+        });
+
+        return {
+          deletedCount: count,
+          selectedUserIds: selected.map((user) => user.userId),
+        };
+      },
+    );
+
+    return {
+      dryRun: false as const,
+      deletedCount,
+      deletedAt,
+      ...findNotFound(selectedUserIds),
+    };
+  }
+
+  /**
+   * userId 목록 또는 필터로 선택한 유저에게 같은 수정 내용(패치)을 한 번에 적용함
+   *
+   * @remarks
+   * 패치의 set은 값을 덮어쓰고 increment는 현재 값에 더함 (예: 일괄 전직, 경험치 지급)
+   * 값이 실제로 바뀌는 유저만 수정하므로 이미 같은 값인 유저의 updatedAt은 바뀌지 않음
+   * 대상 조회, 범위 검사, 수정은 하나의 트랜잭션으로 수행하며,
+   * 범위를 벗어나게 되는 유저가 하나라도 있으면 아무것도 수정하지 않음
+   * set에 job이나 jobCode 중 하나만 있으면 직업 목록에서 나머지를 채워 함께 덮어씀
+   * 진행 필드(level, exp, meso, playTime)가 바뀐 유저는 같은 트랜잭션에서 진행 이력을 남김
+   * dryRun이면 같은 검사를 거쳐 요약과 앞쪽 일부 변경 내역만 반환하고,
+   * 실제 실행이면 바뀐 모든 유저의 변경 내역을 반환함
+   *
+   * @param dto - 유효성 검사를 통과한 일괄 수정 요청
+   *
+   * @throws {HttpException}
+   * - userIds와 filter를 모두 지정하거나 모두 생략한 요청, 유효하지 않은 대상 선택
+   * - 비어 있거나 같은 필드를 set과 increment에 함께 지정한 패치, level을 null로 지정한 패치
+   * - 선택된 유저가 MAX_BULK_UPDATE_USERS를 넘는 요청
+   * - 적용하면 값이 허용 범위를 벗어나는 유저가 있는 요청
+   * - 직업 목록과 맞지 않는 job/jobCode를 set에 지정한 패치
+   * - DB 접근 오류
+   *
+   * @returns {Promise<{
+   *   dryRun: boolean,
+   *   ranAt: Date,
+   *   matchedCount: number,
+   *   changedCount: number,
+   *   unchangedCount: number,
+   *   fieldCounts: Record<string, number>,
+   *   changes: { userId: string, nickname: string, before: object, after: object }[],
+   *   notFoundUserIds?: string[]
+   * }>}
+   */
+  async bulkUpdateUsers(dto: BulkUpdateUsersDto) {
+    const where = this.buildBulkSelectionWhere(dto);
+    this.validateUserPatch(dto.patch);
+    const patch = await this.resolvePatchJobPair(dto.patch);
+
+    const fields = getPatchedFields(patch);
+    const changeWhere: Prisma.UserWhereInput = {
+      AND: [where, buildPatchChangeWhere(patch)],
+    };
+    const outOfRangeWhere = buildPatchOutOfRangeWhere(patch);
+
+    const run = async (tx: Prisma.TransactionClient) => {
+      const matched = await tx.user.findMany({
+        where,
+        select: { userId: true },
+        take: MAX_BULK_UPDATE_USERS + 1,
+      });
+      if (matched.length > MAX_BULK_UPDATE_USERS) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'BULK_LIMIT_EXCEEDED',
+          `Bulk update cannot change more than ${MAX_BULK_UPDATE_USERS} users at once. Narrow the selection`,
         );
       }
 
-      const skip = (page - 1) * pageSize;
+      if (outOfRangeWhere) {
+        const outOfRangeCount = await tx.user.count({
+          where: { AND: [changeWhere, outOfRangeWhere] },
+        });
+        if (outOfRangeCount > 0) {
+          throw new ApiException(
+            HttpStatus.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `${outOfRangeCount} users would have values out of range after this update`,
+          );
+        }
+      }
 
-      // 레벨 내림차순, 동일 레벨 시 경험치 내림차순으로 정렬
-      const users = await this.prisma.user.findMany({
-        orderBy: [{ level: 'desc' }, { exp: 'desc' }],
-        skip,
-        take: pageSize,
+      const rows = await tx.user.findMany({
+        where: changeWhere,
+        orderBy: { userId: 'asc' },
         select: {
-          id: true,
           userId: true,
           nickname: true,
-          level: true,
-          job: true,
-          jobCode: true,
-          meso: true,
-          playTime: true,
-          exp: true,
-          createdAt: true,
-          updatedAt: true,
+          ...userProgressSelect,
+          ...Object.fromEntries(fields.map((field) => [field, true])),
         },
       });
 
-      const hasMore = skip + pageSize < totalUserCount;
+      const changes = rows.map(({ userId, nickname, ...values }) => ({
+        userId,
+        nickname,
+        ...diffUserPatch(values, patch),
+      }));
+
+      if (!dto.dryRun && rows.length > 0) {
+        await tx.user.updateMany({
+          where: {
+            AND: [
+              changeWhere,
+              { userId: { in: rows.map((row) => row.userId) } },
+            ],
+          },
+          data: buildPatchData(patch),
+        });
+
+        // 이력에는 수정 후 실제로 저장된 값을 기록
+        const updated = await tx.user.findMany({
+          where: { userId: { in: rows.map((row) => row.userId) } },
+          select: { userId: true, ...userProgressSelect },
+        });
+        const nextByUserId = new Map(
+          updated.map(({ userId, ...next }) => [userId, next]),
+        );
+
+        await recordUserProgress(
+          tx,
+          rows.map(({ userId, level, exp, meso, playTime }) => {
+            const next = nextByUserId.get(userId);
+            return next
+              ? buildUserProgressEntry(
+                  userId,
+                  { level, exp, meso, playTime },
+                  next,
+                )
+              : null;
+          }),
+        );
+      }
+
+      return { matched, changes };
+    };
 
-      return this.buildRankedUsersResponse(users, totalUserCount, page, totalPages, hasMore);
-    } catch (error) {
-      this.handleCommonErrors(error);
-    }
+    const { matched, changes } = dto.dryRun
+      ? await run(this.prisma)
+      : await this.prisma.$transaction(run);
+    const fieldCounts = Object.fromEntries(
+      fields.map((field) => [
+        field,
+        changes.filter((change) => field in change.after).length,
+      ]),
+    );
+
+    const matchedUserIds = new Set(matched.map((user) => user.userId));
+    const requestedUserIds = dto.userIds && [...new Set(dto.userIds)];
+
+    return {
+      dryRun: Boolean(dto.dryRun),
+      ranAt: new Date(),
+      matchedCount: matched.length,
+      changedCount: changes.length,
+      unchangedCount: matched.length - changes.length,
+      fieldCounts,
+      changes: dto.dryRun
+        ? changes.slice(0, BULK_UPDATE_PREVIEW_SIZE)
+        : changes,
+      ...(requestedUserIds && {
+        notFoundUserIds: requestedUserIds.filter(
+          (id) => !matchedUserIds.has(id),
+        ),
+      }),
+    };
   }
 
   /**
-   * 유저 ID 또는 닉네임으로 유저를 검색함
-   * 레벨과 경험치 기준 정렬
-   * 
-   * @param keyword - 검색할 키워드 (최소 2자, 최대 30자)
-   * 
+   * 휴지통에 있는 유저 목록을 최근 삭제순으로 페이지네이션하여 조회함
+   *
+   * @remarks
+   * purgeAt은 보관 기간(TRASH_RETENTION_DAYS)이 끝나 영구 삭제될 예정 시각임
+   *
+   * @param page - 조회할 페이지 번호 (1부터 시작)
+   * @param pageSize - 한 페이지당 표시할 유저 수 (최대 1000)
+   *
    * @throws {HttpException}
-   * - 유효하지 않은 검색 키워드
+   * - 존재하지 않는 페이지 요청
    * - DB 접근 오류
-   * 
+   *
    * @returns {Promise<{
-   *   searchResults: User[],
+   *   users: (User & { deletedAt: Date, purgeAt: Date })[],
    *   totalCount: number,
-   *   keyword: string
+   *   currentPage: number,
+   *   totalPages: number,
+   *   hasMore: boolean,
+   *   retentionDays: number
    * }>}
    */
-  async searchUsersByKeyword(keyword: string) {
-    this.validateKeyword(keyword);
+  async getTrashedUsers(page = 1, pageSize = 50) {
+    const where: Prisma.UserWhereInput = { deletedAt: { not: null } };
 
-    try {
-      const searchResults = await this.prisma.user.findMany({
-        where: {
-          OR: [
-            { userId: { contains: keyword.trim(), mode: 'insensitive' } },
-            { nickname: { contains: keyword.trim(), mode: 'insensitive' } },
-          ],
-        },
-        orderBy: [
-          { level: 'desc' },
-          { exp: 'desc' }
-        ],
-        select: {
-          userId: true,
-          nickname: true,
-          level: true,
-          job: true,
-          jobCode: true,
-          meso: true,
-          playTime: true,
-          exp: true,
-          createdAt: true,
-        },
-        take: 50, // 성능과 UX를 고려한 최대 검색 결과 제한
-      });
+    const totalCount = await this.prisma.user.count({ where });
+    const totalPages = Math.ceil(totalCount / pageSize);
 
-      return {
-        searchResults,
-        totalCount: searchResults.length,
-        keyword: keyword.trim(),
-      };
-    } catch (error) {
-      this.handleCommonErrors(error);
+    // 페이지 범위 초과 여부 확인 (휴지통이 비어 있으면 빈 첫 페이지를 반환)
+    if (totalCount > 0) {
+      this.validatePageExists(page, totalPages);
     }
+
+    const skip = (page - 1) * pageSize;
+
+    const users = await this.prisma.user.findMany({
+      where,
+      orderBy: [{ deletedAt: 'desc' }, { userId: 'asc' }],
+      skip,
+      take: pageSize,
+      select: trashedUserSelect,
+    });
+
+    return {
+      users: users.map((user) => ({
+        ...user,
+        purgeAt: this.getPurgeDate(user.deletedAt),
+      })),
+      totalCount,
+      currentPage: page,
+      totalPages,
+      hasMore: skip + pageSize < totalCount,
+      retentionDays: this.trashRetentionDays,
+    };
   }
 
   /**
-   * 특정 유저를 영구적으로 삭제함
-   * 
-   * @param userId - 삭제할 유저의 고유 ID
-   * 
+   * 휴지통에 있는 유저를 복원함
+   *
+   * @param userId - 복원할 유저의 고유 ID
+   *
    * @throws {HttpException}
-   * - 유효하지 않은 userId 형식
    * - 존재하지 않는 유저
+   * - 휴지통에 있지 않은 유저 (409)
    * - DB 접근 오류
-   * 
-   * @returns {Promise<{
-   *   success: boolean,
-   *   message: string
-   * }>}
+   *
+   * @returns {Promise<User>} 복원된 유저
    */
-  async deleteUserByUserId(userId: string) {
-    this.validateUserId(userId);
+  async restoreUser(userId: string) {
+    const { count } = await this.prisma.user.updateMany({
+      where: { userId, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    });
 
-    try {
+    if (count === 0) {
       const existingUser = await this.prisma.user.findUnique({
         where: { userId },
         select: { userId: true },
       });
 
       if (!existingUser) {
-        throw new HttpException('User not found', HttpStatus.NOT_FOUND);
+        throw new ApiException(
+          HttpStatus.NOT_FOUND,
+          'USER_NOT_FOUND',
+          'User not found',
+        );
       }
+      throw new ApiException(
+        HttpStatus.CONFLICT,
+        'USER_NOT_IN_TRASH',
+        `User with userId ${userId} is not in the trash`,
+      );
+    }
 
-      await this.prisma.user.delete({ where: { userId } });
+    return this.prisma.user.findUnique({
+      where: { userId },
+      select: rankedUserSelect,
+    });
+  }
 
-      return {
-        success: true,
-        message: `User with userId ${userId} has been deleted.`,
-      };
+  /**
+   * 보관 기간(TRASH_RETENTION_DAYS)이 지난 휴지통의 유저를 영구 삭제함
+   *
+   * @remarks
+   * 유저의 랭킹 스냅샷도 함께 삭제됨 (onDelete: Cascade)
+   *
+   * @returns 영구 삭제된 유저 수
+   */
+  async purgeExpiredTrash() {
+    const cutoff = new Date(
+      Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000,
+    );
+
+    const { count } = await this.prisma.user.deleteMany({
+      where: { deletedAt: { lt: cutoff } },
+    });
+
+    return { purgedCount: count };
+  }
+
+  /**
+   * 매시 정각에 보관 기간이 지난 휴지통의 유저를 영구 삭제함
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'trash-purge' })
+  async handleTrashPurge() {
+    try {
+      const { purgedCount } = await this.purgeExpiredTrash();
+      if (purgedCount > 0) {
+        this.logger.log(`Purged ${purgedCount} users from the trash`);
+      }
     } catch (error) {
-      this.handleCommonErrors(error);
+      this.logger.error('Failed to purge expired trash', error);
     }
   }
 
   /**
-   * 페이지네이션 파라미터의 유효성을 검사함
-   * 
+   * 요청한 페이지가 전체 페이지 범위 안에 있는지 검사함
+   *
    * @param page - 페이지 번호
-   * @param pageSize - 페이지 크기
-   * 
-   * @throws {HttpException} 유효하지 않은 페이지 파라미터
+   * @param totalPages - 전체 페이지 수
+   *
+   * @throws {HttpException} 존재하지 않는 페이지 요청
    */
-  private validatePageParams(page: number, pageSize: number): void {
-    if (!Number.isInteger(page) || page < 1) {
-      throw new HttpException(
-        'Page number must be a positive integer',
-        HttpStatus.BAD_REQUEST,
+  private validatePageExists(page: number, totalPages: number): void {
+    if (page > totalPages) {
+      throw new ApiException(
+        HttpStatus.NOT_FOUND,
+        'PAGE_OUT_OF_RANGE',
+        `Page ${page} does not exist. Total pages: ${totalPages}`,
+        { page, totalPages },
       );
     }
+  }
+
+  /**
+   * 랭킹 범위(직업명, 직업 코드)의 유효성을 검사함
+   *
+   * @param scope - 랭킹 범위
+   *
+   * @throws {HttpException}
+   * - 빈 문자열이거나 30자를 초과하는 직업명
+   * - 허용되지 않는 특수문자 포함
+   * - 0 이상의 정수가 아닌 직업 코드
+   */
+  private validateRankingScope(scope: RankingScope): void {
+    if (scope.job !== undefined) {
+      const job = scope.job;
+      if (job.trim().length === 0 || job.length > 30) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          'Job must be between 1 and 30 characters',
+        );
+      }
+
+      // XSS 공격 방지를 위한 특수문자 검사
+      const specialChars = /[<>{}[\]\\]/;
+      if (specialChars.test(job)) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          'Job contains invalid characters',
+        );
+      }
+    }
 
-    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 1000) {
-      throw new HttpException(
-        'Page size must be an integer between 1 and 1000',
+    if (
+      scope.jobCode !== undefined &&
+      (!Number.isInteger(scope.jobCode) || scope.jobCode < 0)
+    ) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'Job code must be a non-negative integer',
       );
     }
   }
 
   /**
-   * 검색 키워드의 유효성을 검사함
-   * 
-   * @param keyword - 검색 키워드
-   * 
-   * @throws {HttpException} 
-   * - 빈 문자열
-   * - 최소 길이 미달
-   * - 최대 길이 초과
-   * - 허용되지 않는 특수문자 포함
+   * 유저 필터의 유효성을 검사함
+   *
+   * @param filter - 유저 필터
+   *
+   * @throws {HttpException}
+   * - 0 이상의 정수가 아니거나 최솟값이 최댓값보다 큰 숫자 범위
+   * - 형식이 맞지 않거나 시작일이 종료일보다 늦은 날짜 범위
+   * - 비어 있거나 50개를 초과하는 직업/직업 코드 목록
+   * - 유효하지 않은 직업명 또는 직업 코드
+   */
+  private validateUserFilter(filter: UserFilter): void {
+    const numericRanges: [string, NumericRange | undefined][] = [
+      ['level', filter.level],
+      ['exp', filter.exp],
+      ['meso', filter.meso],
+      ['playTime', filter.playTime],
+    ];
+    for (const [name, range] of numericRanges) {
+      if (range) {
+        this.validateNumericRange(
+          range,
+          name,
+          BIGINT_FILTER_FIELDS.has(name) ? MAX_BIGINT : 2147483647n,
+        );
+      }
+    }
+
+    const dateRanges: [string, DateRange | undefined][] = [
+      ['created', filter.createdAt],
+      ['updated', filter.updatedAt],
+    ];
+    for (const [name, range] of dateRanges) {
+      if (range) this.validateDateRange(range, name);
+    }
+
+    for (const [name, list] of [
+      ['jobs', filter.jobs],
+      ['jobCodes', filter.jobCodes],
+    ] as const) {
+      if (list !== undefined && (list.length === 0 || list.length > 50)) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          `${name} must contain between 1 and 50 items`,
+        );
+      }
+    }
+
+    filter.jobs?.forEach((job) => this.validateRankingScope({ job }));
+    filter.jobCodes?.forEach((jobCode) =>
+      this.validateRankingScope({ jobCode }),
+    );
+  }
+
+  /**
+   * 숫자 범위 필터의 유효성을 검사함
+   *
+   * @param range - 숫자 범위
+   * @param name - 에러 메시지에 표시할 파라미터 접두어 (예: level → levelMin, levelMax)
+   * @param max - 컬럼에 저장할 수 있는 최댓값 (INT 또는 BIGINT)
+   *
+   * @throws {HttpException}
+   * - 0 이상의 정수가 아니거나 컬럼 범위를 벗어난 값
+   * - 최솟값이 최댓값보다 큰 범위
    */
-  private validateKeyword(keyword: string): void {
-    if (!keyword || keyword.trim().length === 0) {
-      throw new HttpException(
-        'Search keyword cannot be empty',
+  private validateNumericRange(
+    range: NumericRange,
+    name: string,
+    max: bigint,
+  ): void {
+    for (const [bound, value] of [
+      ['Min', range.min],
+      ['Max', range.max],
+    ] as const) {
+      if (value === undefined) continue;
+
+      const parsed = parseBigInt(value);
+      if (parsed === null || parsed < 0n || parsed > max) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          `${name}${bound} must be an integer between 0 and ${max}`,
+        );
+      }
+    }
+
+    if (
+      range.min !== undefined &&
+      range.max !== undefined &&
+      range.min > range.max
+    ) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        `${name}Min cannot be greater than ${name}Max`,
       );
     }
+  }
 
-    const trimmedKeyword = keyword.trim();
-    if (trimmedKeyword.length < 2) {
-      throw new HttpException(
-        'Search keyword must be at least 2 characters long',
+  /**
+   * 날짜 범위 필터의 유효성을 검사함
+   *
+   * @param range - 날짜 범위
+   * @param name - 에러 메시지에 표시할 파라미터 접두어 (예: created → createdFrom, createdTo)
+   *
+   * @throws {HttpException}
+   * - YYYY-MM-DD 또는 ISO 8601 형식이 아닌 날짜
+   * - 시작일이 종료일보다 늦은 범위
+   */
+  private validateDateRange(range: DateRange, name: string): void {
+    const isoDate =
+      /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+    for (const [bound, value] of [
+      ['From', range.from],
+      ['To', range.to],
+    ] as const) {
+      if (
+        value !== undefined &&
+        (!isoDate.test(value) || isNaN(Date.parse(value)))
+      ) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          `${name}${bound} must be a date in YYYY-MM-DD or ISO 8601 format`,
+        );
+      }
+    }
+
+    if (
+      range.from !== undefined &&
+      range.to !== undefined &&
+      Date.parse(range.from) > Date.parse(range.to)
+    ) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        `${name}From cannot be later than ${name}To`,
       );
     }
-    if (trimmedKeyword.length > 30) {
-      throw new HttpException(
-        'Search keyword cannot exceed 30 characters',
+  }
+
+  /**
+   * 일괄 작업 요청의 대상 선택(userIds 또는 filter)을 검사하고 Prisma where 절로 변환함
+   *
+   * @remarks
+   * 오타가 난 필터 파라미터가 조용히 무시되어 전체 유저가 선택되는 일이 없도록
+   * 알 수 없는 파라미터와 빈 filter는 거부함
+   *
+   * @param selection - userId 목록 또는 필터 쿼리 파라미터
+   *
+   * @throws {HttpException}
+   * - userIds와 filter를 모두 지정하거나 모두 생략한 요청
+   * - 비어 있거나, 알 수 없는 파라미터 또는 문자열/숫자가 아닌 값이 포함된 filter
+   * - 유효하지 않은 필터 값
+   *
+   * @returns 휴지통에 있지 않은 유저 중 선택된 유저에 대한 where 절
+   */
+  private buildBulkSelectionWhere(
+    selection: BulkSelectionDto,
+  ): Prisma.UserWhereInput {
+    const { userIds, filter } = selection;
+
+    if ((userIds === undefined) === (filter === undefined)) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'Exactly one of userIds or filter must be provided',
       );
     }
 
-    // XSS 공격 방지를 위한 특수문자 검사
-    const specialChars = /[<>{}[\]\\]/;
-    if (specialChars.test(trimmedKeyword)) {
-      throw new HttpException(
-        'Search keyword contains invalid characters',
+    if (userIds) {
+      return { ...activeUserWhere, userId: { in: userIds } };
+    }
+
+    const entries = Object.entries(filter);
+    if (entries.length === 0) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'filter must contain at least one condition',
       );
     }
+    for (const [name, value] of entries) {
+      if (!USER_FILTER_PARAMS.includes(name)) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          `Unknown filter parameter "${name}". Expected one of: ${USER_FILTER_PARAMS.join(', ')}`,
+        );
+      }
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          `filter.${name} must be a string or a number`,
+        );
+      }
+    }
+
+    const userFilter = parseUserFilterQuery(
+      Object.fromEntries(entries.map(([name, value]) => [name, String(value)])),
+    );
+    this.validateUserFilter(userFilter);
+
+    return { AND: [activeUserWhere, buildUserFilterWhere(userFilter)] };
   }
 
   /**
-   * 유저 ID의 유효성을 검사함
-   * 
-   * @param userId - 검증할 유저 ID
-   * 
+   * 일괄 수정 패치의 유효성을 검사함
+   *
+   * @remarks
+   * 필드별 형식은 BulkUpdateUsersDto에서 검사하며, 여기서는 패치 전체에 대한 규칙만 검사함
+   *
+   * @param patch - 일괄 수정 패치
+   *
    * @throws {HttpException}
-   * - 유효하지 않은 형식
-   * - 최대 길이 초과
-   * - 허용되지 않는 특수문자 포함
+   * - 바꿀 필드가 없는 패치
+   * - 같은 필드를 set과 increment에 함께 지정한 패치
+   * - level을 null로 지정한 패치
    */
-  private validateUserId(userId: string): void {
-    if (!userId || typeof userId !== 'string') {
-      throw new HttpException('Invalid userId format', HttpStatus.BAD_REQUEST);
+  private validateUserPatch(patch: UserPatch): void {
+    const fields = getPatchedFields(patch);
+    if (fields.length === 0) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'patch must set or increment at least one field',
+      );
+    }
+
+    const duplicated = fields.find(
+      (field, index) => fields.indexOf(field) !== index,
+    );
+    if (duplicated) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        `${duplicated} cannot be both set and incremented`,
+      );
     }
-    if (userId.length > 30) {
-      throw new HttpException(
-        'UserId cannot exceed 30 characters',
+
+    if (patch.set?.level === null) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'level cannot be null',
       );
     }
+  }
 
-    // XSS 공격 방지를 위한 특수문자 검사
-    const specialChars = /[<>{}[\]\\]/;
-    if (specialChars.test(userId)) {
-      throw new HttpException(
-        'UserId contains invalid characters',
+  /**
+   * 유저 수정 요청의 유효성을 검사함
+   *
+   * @remarks
+   * 필드별 형식은 UpdateUserDto에서 검사하며, 여기서는 요청 전체에 대한 규칙만 검사함
+   *
+   * @param dto - 유저 수정 요청
+   *
+   * @throws {HttpException}
+   * - 수정할 필드가 없는 요청
+   * - nickname 또는 level을 null로 지정한 요청
+   */
+  private validateUserUpdate(dto: UpdateUserDto): void {
+    if (Object.values(dto).every((value) => value === undefined)) {
+      throw new ApiException(
         HttpStatus.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'At least one field must be provided',
       );
     }
+
+    for (const field of ['nickname', 'level'] as const) {
+      if (dto[field] === null) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'VALIDATION_FAILED',
+          `${field} cannot be null`,
+        );
+      }
+    }
+  }
+
+  /**
+   * job/jobCode 쌍이 직업 목록(Job)과 일치하는지 검사함
+   *
+   * @remarks
+   * jobCode는 Job.code를 가리키며, job은 그 직업의 한글명(Job.nameKo)과 같아야 함
+   * 둘 중 하나만 주어지면 직업 목록에서 나머지를 채움 (checkJobPair)
+   * jobCode가 가리키는 직업과 job이 다르면 올바른 직업명을 details.expected로 알려줌
+   *
+   * @param client - 조회에 사용할 클라이언트 (트랜잭션 안이면 트랜잭션 클라이언트)
+   * @param job - 저장할 직업명
+   * @param jobCode - 저장할 직업 코드
+   *
+   * @throws {HttpException}
+   * - 직업 목록에 없는 직업명 또는 직업 코드
+   * - jobCode가 가리키는 직업과 다른 job
+   *
+   * @returns 저장할 job/jobCode (둘 다 있거나 둘 다 null)
+   */
+  private async validateJobPair(
+    client: Prisma.TransactionClient,
+    job: string | null,
+    jobCode: number | null,
+  ): Promise<{ job: string | null; jobCode: number | null }> {
+    const check = checkJobPair(
+      createJobLookup(await client.job.findMany()),
+      job,
+      jobCode,
+    );
+    if (check.status === 'valid') {
+      return { job: check.job, jobCode: check.jobCode };
+    }
+
+    const messages = {
+      unknownJob: `Job "${job}" is not in the job catalog`,
+      unknownJobCode: `jobCode ${jobCode} is not in the job catalog`,
+      mismatch: `jobCode ${jobCode} is "${check.expectedJob}", not "${job}"`,
+    };
+    throw new ApiException(
+      HttpStatus.BAD_REQUEST,
+      'INVALID_JOB',
+      messages[check.status],
+      {
+        job,
+        jobCode,
+        ...(check.status === 'mismatch' && {
+          expected: { job: check.expectedJob, jobCode },
+        }),
+      },
+    );
+  }
+
+  /**
+   * 일괄 수정 패치의 set에 있는 job/jobCode 쌍을 직업 목록과 대조하고 나머지를 채움
+   *
+   * @remarks
+   * set에 job이나 jobCode 중 하나만 있으면 직업 목록에서 나머지를 채워 둘 다 덮어쓰므로,
+   * 수정된 모든 유저의 job/jobCode가 같은 쌍이 되어 유저마다 따로 검사할 필요가 없음
+   *
+   * @param patch - 유효성 검사를 통과한 패치
+   *
+   * @throws {HttpException} 직업 목록과 맞지 않는 job/jobCode
+   *
+   * @returns set에 job과 jobCode를 함께 담은 패치 (set에 둘 다 없으면 그대로 반환)
+   */
+  private async resolvePatchJobPair(patch: UserPatch): Promise<UserPatch> {
+    if (patch.set?.job === undefined && patch.set?.jobCode === undefined) {
+      return patch;
+    }
+
+    const jobPair = await this.validateJobPair(
+      this.prisma,
+      patch.set.job ?? null,
+      patch.set.jobCode ?? null,
+    );
+    return { ...patch, set: { ...patch.set, ...jobPair } };
+  }
+
+  /**
+   * 유저 목록에 랭킹 범위 기준 순위(rank)를 붙임
+   *
+   * @remarks
+   * 전체 유저에 윈도 함수를 적용하지 않고, 가장 앞선 유저보다 앞에 있는 유저 수를 정렬 키 인덱스로 한 번만 센 뒤
+   * 목록의 범위 안에서만 순위를 이어 붙임 (pageRanksSql)
+   * 여러 유저의 순위는 한 번의 쿼리로 계산하며, 동점자 처리 방식은 RANK_TIE_POLICY 설정을 따름
+   *
+   * @param users - 순위를 붙일 유저 목록 (정렬 키 컬럼 포함)
+   * @param scope - 순위를 계산할 랭킹 범위 (생략 시 전체 랭킹)
+   * @param sortKeys - 순위 판정에 사용할 정렬 키 (생략 시 레벨 기준)
+   *
+   * @throws {Error} 순위가 계산되지 않은 유저가 있는 경우 (쿼리 결과가 입력과 맞지 않음)
+   *
+   * @returns 입력 순서를 유지한 채 rank 필드가 추가된 유저 목록
+   */
+  private async attachRanks<
+    T extends Pick<
+      RankedUserRow,
+      'userId' | 'level' | 'exp' | 'meso' | 'playTime' | 'createdAt'
+    >,
+  >(
+    users: T[],
+    scope: RankingScope = {},
+    sortKeys: SortKey[] = this.defaultSortKeys,
+  ): Promise<(T & { rank: number })[]> {
+    if (users.length === 0) {
+      return [];
+    }
+
+    const ranks = await this.prisma.$queryRaw<
+      { userId: string; rank: number }[]
+    >(
+      pageRanksSql(
+        this.rankTiePolicy,
+        sortKeys,
+        users,
+        this.buildScopeSql(scope),
+      ),
+    );
+
+    const rankByUserId = new Map(ranks.map((row) => [row.userId, row.rank]));
+    return users.map((user) => {
+      const rank = rankByUserId.get(user.userId);
+      if (rank === undefined) {
+        throw new Error(`Rank was not computed for user ${user.userId}`);
+      }
+      return { ...user, rank };
+    });
+  }
+
+  /**
+   * 유저 목록에 다음 레벨까지의 필요 경험치(requiredExp)와 진행률(expPercent)을 붙임
+   *
+   * @param users - 진행률을 붙일 유저 목록
+   *
+   * @returns 입력 순서를 유지한 채 requiredExp, expPercent 필드가 추가된 유저 목록
+   */
+  private attachLevelProgress<T extends { level: number; exp: bigint | null }>(
+    users: T[],
+  ): (T & LevelProgress)[] {
+    return users.map((user) => ({
+      ...user,
+      ...this.levelCurveService.getProgress(user.level, user.exp),
+    }));
+  }
+
+  /**
+   * 검색창 질의어를 파싱함
+   *
+   * @param query - 검색창에 입력된 질의어
+   *
+   * @throws {HttpException} 질의어 문법 오류 (문제가 된 토큰의 position, length 포함)
+   */
+  private parseSearchQuery(query: string | undefined): ParsedUserQuery {
+    try {
+      return parseUserQuery(query ?? '');
+    } catch (error) {
+      if (error instanceof UserQueryParseError) {
+        throw new ApiException(
+          HttpStatus.BAD_REQUEST,
+          'INVALID_QUERY',
+          error.message,
+          { position: error.position, length: error.length },
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 한글 검색어를 초성/자모 분해 컬럼 검색 조건으로 변환함
+   *
+   * @remarks
+   * 한글이 없는 검색어는 두 조건 모두 FALSE가 되어 일반 검색만 수행됨
+   *
+   * @param keyword - 공백이 제거된 검색어
+   *
+   * @returns 접두 일치 조건(prefix)과 포함 조건(contains)
+   */
+  private buildHangulSearchConditions(keyword: string): {
+    prefix: Prisma.Sql;
+    contains: Prisma.Sql;
+  } {
+    const term = buildHangulSearchTerm(keyword);
+    if (!term) {
+      return { prefix: Prisma.sql`FALSE`, contains: Prisma.sql`FALSE` };
+    }
+
+    // 컬럼명은 buildHangulSearchTerm의 고정된 값에서만 오므로 raw로 삽입해도 안전함
+    const column = Prisma.raw(`"${term.column}"`);
+    const escaped = escapeLikePattern(term.value);
+
+    return {
+      prefix: Prisma.sql`${column} LIKE ${`${escaped}%`}`,
+      contains: Prisma.sql`${column} LIKE ${`%${escaped}%`}`,
+    };
+  }
+
+  /**
+   * 정렬 기준에 맞는 랭킹 정렬 키를 반환함
+   *
+   * @param criteria - 정렬 기준과 방향
+   */
+  private getSortKeys(criteria: RankingCriteria): SortKey[] {
+    if (!criteria.sortBy && !criteria.order) {
+      return this.defaultSortKeys;
+    }
+    return getRankingSortKeys(
+      this.rankTiePolicy,
+      criteria.sortBy,
+      criteria.order,
+    );
+  }
+
+  /**
+   * 랭킹 범위를 Prisma where 절로 변환함 (휴지통의 유저는 항상 제외)
+   *
+   * @param scope - 랭킹 범위
+   */
+  private buildScopeWhere(scope: RankingScope): Prisma.UserWhereInput {
+    return {
+      ...activeUserWhere,
+      ...(scope.job !== undefined && { job: scope.job }),
+      ...(scope.jobCode !== undefined && { jobCode: scope.jobCode }),
+    };
+  }
+
+  /**
+   * 랭킹 범위를 순위 계산용 SQL 조건으로 변환함 (휴지통의 유저는 항상 제외)
+   *
+   * @param scope - 랭킹 범위
+   */
+  private buildScopeSql(scope: RankingScope): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [activeUserSql];
+    if (scope.job !== undefined) {
+      conditions.push(Prisma.sql`"job" = ${scope.job}`);
+    }
+    if (scope.jobCode !== undefined) {
+      conditions.push(Prisma.sql`"jobCode" = ${scope.jobCode}`);
+    }
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  /**
+   * 휴지통으로 이동한 시각으로부터 영구 삭제 예정 시각을 계산함
+   *
+   * @param deletedAt - 휴지통으로 이동한 시각
+   */
+  private getPurgeDate(deletedAt: Date): Date {
+    return new Date(
+      deletedAt.getTime() + this.trashRetentionDays * 24 * 60 * 60 * 1000,
+    );
   }
 
   /**
@@ -301,7 +2173,7 @@ export class UsersService {
    * @returns 페이지네이션이 적용된 랭킹 응답 객체
    */
   private buildRankedUsersResponse(
-    users: User[],
+    users: (RankedUserRow & { rank: number } & LevelProgress)[],
     totalCount: number,
     currentPage: number,
     totalPages: number,
@@ -317,35 +2189,105 @@ export class UsersService {
   }
 
   /**
-   * 서비스 전반에서 발생하는 에러를 일관되게 처리함
-   * 
-   * @param error - 발생한 에러 객체
-   * 
-   * @throws {HttpException} 
-   * - 원본 HttpException
-   * - Prisma 관련 에러
-   * - 예상치 못한 서버 에러
+   * 쓰기 사전 조건을 기대하는 updatedAt으로 변환함
+   *
+   * @param precondition - If-Match 헤더 또는 expectedUpdatedAt
+   *
+   * @throws {HttpException}
+   * - 형식이 올바르지 않은 If-Match 또는 expectedUpdatedAt
+   * - 서로 다른 버전을 가리키는 If-Match와 expectedUpdatedAt
+   *
+   * @returns 기대하는 updatedAt, 사전 조건이 없으면 undefined
    */
-  private handleCommonErrors(error: Error | HttpException): never {
-    // HttpException은 그대로 전파
-    if (error instanceof HttpException) {
-      throw error;
+  private resolveExpectedUpdatedAt(
+    precondition: WritePrecondition,
+  ): Date | undefined {
+    const fromHeader = parseIfMatch(precondition.ifMatch);
+    if (fromHeader === null) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'INVALID_PRECONDITION',
+        'If-Match must be an ETag returned by this API or "*"',
+      );
+    }
+
+    const fromParam = parseExpectedUpdatedAt(precondition.expectedUpdatedAt);
+    if (fromParam === null) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'INVALID_PRECONDITION',
+        'expectedUpdatedAt must be an ISO 8601 date-time',
+      );
+    }
+
+    if (
+      fromHeader &&
+      fromParam &&
+      fromHeader.getTime() !== fromParam.getTime()
+    ) {
+      throw new ApiException(
+        HttpStatus.BAD_REQUEST,
+        'INVALID_PRECONDITION',
+        'If-Match and expectedUpdatedAt refer to different versions',
+      );
     }
 
-    // Prisma 관련 에러 처리 (P로 시작하는 에러 코드)
-    if ('code' in error && typeof error.code === 'string' && error.code.startsWith('P')) {
-      console.error('Database error:', error);
-      throw new HttpException(
-        'An error occurred while accessing the database',
-        HttpStatus.INTERNAL_SERVER_ERROR,
+    return fromHeader ?? fromParam;
+  }
+
+  /**
+   * 조건부 쓰기가 아무 행에도 적용되지 않은 이유에 맞는 에러를 던짐
+   *
+   * @param userId - 쓰기 대상 유저 ID
+   *
+   * @throws {HttpException}
+   * - 존재하지 않거나 휴지통에 있는 유저 (404)
+   * - 사전 조건 이후 변경된 유저 (409, 본문의 current에 현재 레코드 포함)
+   */
+  private async throwWriteFailure(userId: string): Promise<never> {
+    const current = await this.prisma.user.findFirst({
+      where: { userId, ...activeUserWhere },
+      select: rankedUserSelect,
+    });
+
+    if (!current) {
+      throw new ApiException(
+        HttpStatus.NOT_FOUND,
+        'USER_NOT_FOUND',
+        'User not found',
       );
     }
 
-    // 예상치 못한 기타 에러
-    console.error('Unexpected error:', error);
-    throw new HttpException(
-      'An unexpected error occurred',
-      HttpStatus.INTERNAL_SERVER_ERROR,
+    throw new ApiException(
+      HttpStatus.CONFLICT,
+      'USER_VERSION_CONFLICT',
+      `User with userId ${userId} has been modified since it was loaded`,
+      { current },
+    );
+  }
+
+  /**
+   * 이미 존재하는 userId에 대한 409 에러를 생성함
+   *
+   * @param userId - 중복된 유저 ID
+   */
+  private userIdConflict(userId: string): ApiException {
+    return new ApiException(
+      HttpStatus.CONFLICT,
+      'USER_ALREADY_EXISTS',
+      `User with userId ${userId} already exists`,
+    );
+  }
+
+  /**
+   * Prisma 고유 제약 조건 위반(P2002) 에러인지 확인함
+   *
+   * @param error - 발생한 에러 객체
+   */
+  private isUniqueConstraintError(error: unknown): boolean {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
     );
   }
 }
@@ -0,0 +1,52 @@
+import {
+  buildHangulSearchTerm,
+  buildNicknameSearchFields,
+  toChosung,
+  toJamo,
+} from './hangul';
+
+describe('hangul', () => {
+  describe('toJamo', () => {
+    it('should decompose syllables and split compound jamo', () => {
+      expect(toJamo('홍길동')).toBe('ㅎㅗㅇㄱㅣㄹㄷㅗㅇ');
+      expect(toJamo('닭Ab')).toBe('ㄷㅏㄹㄱab');
+      expect(toJamo('과')).toBe('ㄱㅗㅏ');
+    });
+  });
+
+  describe('toChosung', () => {
+    it('should keep only initial consonants of syllables', () => {
+      expect(toChosung('홍길동')).toBe('ㅎㄱㄷ');
+      expect(toChosung('메이플Story')).toBe('ㅁㅇㅍstory');
+    });
+  });
+
+  describe('buildNicknameSearchFields', () => {
+    it('should build both normalized columns', () => {
+      expect(buildNicknameSearchFields('용사')).toEqual({
+        nicknameJamo: 'ㅇㅛㅇㅅㅏ',
+        nicknameChosung: 'ㅇㅅ',
+      });
+    });
+  });
+
+  describe('buildHangulSearchTerm', () => {
+    it('should search the chosung column for consonant-only keywords', () => {
+      expect(buildHangulSearchTerm('ㅎ ㄱㄷ')).toEqual({
+        column: 'nicknameChosung',
+        value: 'ㅎㄱㄷ',
+      });
+    });
+
+    it('should match a partially typed syllable via the jamo column', () => {
+      const term = buildHangulSearchTerm('홍기');
+
+      expect(term).toEqual({ column: 'nicknameJamo', value: 'ㅎㅗㅇㄱㅣ' });
+      expect(toJamo('홍길동').startsWith(term!.value)).toBe(true);
+    });
+
+    it('should skip keywords without hangul', () => {
+      expect(buildHangulSearchTerm('hero')).toBeNull();
+    });
+  });
+});
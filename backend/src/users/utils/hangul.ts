@@ -0,0 +1,160 @@
+/**
+ * 한글 닉네임 검색을 위한 자모 분해 유틸리티
+ *
+ * @remarks
+ * 완성형 한글 음절(가 ~ 힣)을 호환용 자모로 분해하여
+ * 초성 검색("ㅎㄱㄷ")과 조합 중인 음절 검색("홍기" → "홍길동")을 가능하게 함
+ */
+
+const SYLLABLE_START = 0xac00;
+const SYLLABLE_END = 0xd7a3;
+const JUNGSEONG_COUNT = 21;
+const JONGSEONG_COUNT = 28;
+
+// 자모 순서대로 나열한 문자열을 한 글자씩 나눈 표 (종성의 첫 항목은 받침 없음)
+const CHOSEONG = [...'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ'];
+
+const JUNGSEONG = [...'ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ'];
+
+const JONGSEONG = [
+  '',
+  ...'ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ',
+];
+
+/**
+ * 겹모음, 겹받침을 키보드 입력 순서대로 나눈 표
+ * 예: "과" 입력 도중의 "고", "닭" 입력 도중의 "달"도 일치하도록 함
+ */
+const COMPOUND_JAMO: Record<string, string> = {
+  ㅘ: 'ㅗㅏ',
+  ㅙ: 'ㅗㅐ',
+  ㅚ: 'ㅗㅣ',
+  ㅝ: 'ㅜㅓ',
+  ㅞ: 'ㅜㅔ',
+  ㅟ: 'ㅜㅣ',
+  ㅢ: 'ㅡㅣ',
+  ㄳ: 'ㄱㅅ',
+  ㄵ: 'ㄴㅈ',
+  ㄶ: 'ㄴㅎ',
+  ㄺ: 'ㄹㄱ',
+  ㄻ: 'ㄹㅁ',
+  ㄼ: 'ㄹㅂ',
+  ㄽ: 'ㄹㅅ',
+  ㄾ: 'ㄹㅌ',
+  ㄿ: 'ㄹㅍ',
+  ㅀ: 'ㄹㅎ',
+  ㅄ: 'ㅂㅅ',
+};
+
+/**
+ * 호환용 자음(ㄱ ~ ㅎ)만으로 이루어진 문자열인지 판별하는 정규식
+ */
+const CHOSUNG_ONLY = /^[ㄱ-ㅎ]+$/;
+
+/**
+ * 한글 문자(완성형 음절 또는 호환용 자모)를 포함하는지 판별하는 정규식
+ */
+const HANGUL = /[가-힣ㄱ-ㆎ]/;
+
+function isSyllable(code: number): boolean {
+  return code >= SYLLABLE_START && code <= SYLLABLE_END;
+}
+
+function splitCompound(jamo: string): string {
+  return COMPOUND_JAMO[jamo] ?? jamo;
+}
+
+/**
+ * 문자열을 소문자 + 자모 단위로 분해함
+ *
+ * @example
+ * toJamo('홍길동') // 'ㅎㅗㅇㄱㅣㄹㄷㅗㅇ'
+ * toJamo('닭Ab') // 'ㄷㅏㄹㄱab'
+ */
+export function toJamo(text: string): string {
+  let result = '';
+
+  for (const char of text.toLowerCase()) {
+    const code = char.charCodeAt(0);
+    if (!isSyllable(code)) {
+      result += splitCompound(char);
+      continue;
+    }
+
+    const offset = code - SYLLABLE_START;
+    const cho = Math.floor(offset / (JUNGSEONG_COUNT * JONGSEONG_COUNT));
+    const jung = Math.floor(offset / JONGSEONG_COUNT) % JUNGSEONG_COUNT;
+    const jong = offset % JONGSEONG_COUNT;
+
+    result +=
+      CHOSEONG[cho] +
+      splitCompound(JUNGSEONG[jung]) +
+      splitCompound(JONGSEONG[jong]);
+  }
+
+  return result;
+}
+
+/**
+ * 문자열에서 한글 음절을 초성으로 바꿈 (한글이 아닌 문자는 소문자로 유지)
+ *
+ * @example
+ * toChosung('홍길동') // 'ㅎㄱㄷ'
+ * toChosung('메이플Story') // 'ㅁㅇㅍstory'
+ */
+export function toChosung(text: string): string {
+  let result = '';
+
+  for (const char of text.toLowerCase()) {
+    const code = char.charCodeAt(0);
+    result += isSyllable(code)
+      ? CHOSEONG[
+          Math.floor(
+            (code - SYLLABLE_START) / (JUNGSEONG_COUNT * JONGSEONG_COUNT),
+          )
+        ]
+      : char;
+  }
+
+  return result;
+}
+
+/**
+ * 닉네임으로부터 검색용 정규화 컬럼 값을 생성함
+ *
+ * @remarks
+ * 닉네임을 저장하거나 변경하는 모든 경로(API, 임포트 스크립트)에서
+ * 이 함수의 결과를 함께 저장해야 검색 컬럼이 동기화됨
+ *
+ * @param nickname - 원본 닉네임
+ */
+export function buildNicknameSearchFields(nickname: string) {
+  return {
+    nicknameJamo: toJamo(nickname),
+    nicknameChosung: toChosung(nickname),
+  };
+}
+
+/**
+ * 검색어에 맞는 한글 검색 방식을 결정함
+ *
+ * @remarks
+ * - 초성으로만 이루어진 검색어 → 초성 컬럼에서 검색
+ * - 한글을 포함한 검색어 → 자모 분해 컬럼에서 검색
+ * - 한글이 없는 검색어 → null (일반 검색만 수행)
+ *
+ * @param keyword - 사용자가 입력한 검색어
+ */
+export function buildHangulSearchTerm(
+  keyword: string,
+): { column: 'nicknameChosung' | 'nicknameJamo'; value: string } | null {
+  const compact = keyword.replace(/\s+/g, '');
+
+  if (CHOSUNG_ONLY.test(compact)) {
+    return { column: 'nicknameChosung', value: compact };
+  }
+  if (HANGUL.test(keyword)) {
+    return { column: 'nicknameJamo', value: toJamo(keyword) };
+  }
+  return null;
+}
@@ -0,0 +1,31 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * 닉네임이 바뀌었으면 변경 전 닉네임을 NicknameHistory에 기록함
+ *
+ * @remarks
+ * 닉네임을 변경하는 모든 경로(API, 임포트 스크립트)에서
+ * 유저 수정과 같은 트랜잭션 안에서 호출해야 이력이 누락되지 않음
+ *
+ * @param tx - 유저 수정에 사용한 트랜잭션 클라이언트
+ * @param userId - 닉네임이 바뀐 유저 ID
+ * @param previousNickname - 변경 전 닉네임
+ * @param nextNickname - 변경 후 닉네임
+ *
+ * @returns 이력을 기록했는지 여부 (닉네임이 그대로이면 false)
+ */
+export async function recordNicknameChange(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  previousNickname: string,
+  nextNickname: string,
+): Promise<boolean> {
+  if (previousNickname === nextNickname) {
+    return false;
+  }
+
+  await tx.nicknameHistory.create({
+    data: { userId, nickname: previousNickname },
+  });
+  return true;
+}
@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import {
+  pageRanksSql,
+  rankOfRowSql,
+  rowsAheadSql,
+  rowsBehindSql,
+} from './rank-window';
+import { RANKING_SORT_KEYS, getRankingSortKeys } from './ranking-cursor';
+
+describe('rank-window', () => {
+  const row = { level: 120, exp: 5000n, userId: 'abc' };
+
+  describe('rowsAheadSql', () => {
+    it('should expand the keyset into range conditions', () => {
+      const sql = rowsAheadSql(RANKING_SORT_KEYS, row);
+
+      expect(sql.text).toBe(
+        '(("level" > $1) OR ("level" = $2 AND "exp" > $3) OR ("level" = $4 AND "exp" = $5 AND "userId" < $6))',
+      );
+      expect(sql.values).toEqual([120, 120, 5000n, 120, 5000n, 'abc']);
+    });
+
+    it('should treat every non-null value as ahead of a null value', () => {
+      const sql = rowsAheadSql(RANKING_SORT_KEYS.slice(0, 2), {
+        level: 120,
+        exp: null,
+      });
+
+      expect(sql.text).toBe(
+        '(("level" > $1) OR ("level" = $2 AND "exp" IS NOT NULL))',
+      );
+    });
+  });
+
+  describe('rowsBehindSql', () => {
+    it('should keep null values behind every non-null value', () => {
+      const sql = rowsBehindSql(RANKING_SORT_KEYS, row);
+
+      expect(sql.text).toBe(
+        '(("level" < $1) OR ("level" = $2 AND ("exp" < $3 OR "exp" IS NULL)) OR ("level" = $4 AND "exp" = $5 AND "userId" > $6))',
+      );
+    });
+
+    it('should find nothing behind a null value', () => {
+      const sql = rowsBehindSql(RANKING_SORT_KEYS.slice(0, 2), {
+        level: 120,
+        exp: null,
+      });
+
+      expect(sql.text).toBe('(("level" < $1))');
+    });
+  });
+
+  describe('rankOfRowSql', () => {
+    const scope = Prisma.sql`"deletedAt" IS NULL`;
+
+    it('should ignore tie breakers for competition ranks', () => {
+      const sql = rankOfRowSql('competition', RANKING_SORT_KEYS, row, scope);
+
+      expect(sql.text).toContain('SELECT COUNT(*) + 1 FROM "User"');
+      expect(sql.text).not.toContain('"userId"');
+    });
+
+    it('should count distinct ranking values for dense ranks', () => {
+      const sql = rankOfRowSql('dense', RANKING_SORT_KEYS, row, scope);
+
+      expect(sql.text).toContain('SELECT DISTINCT "level", "exp" FROM "User"');
+    });
+
+    it('should include tie breakers for createdAt ranks', () => {
+      const sql = rankOfRowSql('createdAt', RANKING_SORT_KEYS, row, scope);
+
+      expect(sql.text).toContain('"userId" < $');
+    });
+  });
+
+  describe('pageRanksSql', () => {
+    const scope = Prisma.sql`"deletedAt" IS NULL`;
+    const users = [
+      { userId: 'b', level: 118, exp: 10n },
+      { userId: 'a', level: 120, exp: null },
+      { userId: 'c', level: 120, exp: 700n },
+    ];
+
+    it('should count rows ahead of the first row on the page only once', () => {
+      const sql = pageRanksSql('competition', RANKING_SORT_KEYS, users, scope);
+
+      expect(sql.text.match(/COUNT\(\*\)/g)).toHaveLength(1);
+      expect(sql.text).toContain(
+        'RANK() OVER (ORDER BY "level" DESC, "exp" DESC NULLS LAST)',
+      );
+      expect(sql.values.slice(0, 3)).toEqual([120, 120, 700n]);
+    });
+
+    it('should bound the window by the first and last rows on the page', () => {
+      const sql = pageRanksSql('competition', RANKING_SORT_KEYS, users, scope);
+
+      expect(sql.values).toEqual([
+        120,
+        120,
+        700n,
+        120,
+        120,
+        700n,
+        120,
+        700n,
+        118,
+        118,
+        10n,
+        118,
+        10n,
+        'b',
+        'a',
+        'c',
+      ]);
+    });
+
+    it('should leave userId out of the bounds for createdAt ranks', () => {
+      const keys = getRankingSortKeys('createdAt');
+      const sql = pageRanksSql('createdAt', keys, users, scope);
+
+      expect(sql.text).toContain(
+        'ROW_NUMBER() OVER (ORDER BY "level" DESC, "exp" DESC NULLS LAST, "createdAt" ASC, "userId" ASC)',
+      );
+      expect(sql.text).not.toContain('"userId" <');
+      expect(sql.text).not.toContain('"userId" >');
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { Prisma } from '@prisma/client';
+import { CursorValue, SortKey } from './ranking-cursor';
+
+/**
+ * 동점자(레벨과 경험치가 같은 유저) 순위 부여 정책
+ *
+ * - competition: 동점자는 같은 순위, 다음 순위는 동점자 수만큼 건너뜀 (1, 2, 2, 4)
+ * - dense: 동점자는 같은 순위, 다음 순위는 연속됨 (1, 2, 2, 3)
+ * - createdAt: 동점 시 먼저 생성된 유저가 앞 순위 (1, 2, 3, 4)
+ */
+export type RankTiePolicy = 'competition' | 'dense' | 'createdAt';
+
+export const RANK_TIE_POLICIES: RankTiePolicy[] = [
+  'competition',
+  'dense',
+  'createdAt',
+];
+
+/**
+ * 설정값을 순위 정책으로 변환함
+ *
+ * @param value - 환경 변수 등에서 읽은 정책 이름
+ *
+ * @throws {Error} 지원하지 않는 정책 이름
+ */
+export function parseRankTiePolicy(value: string | undefined): RankTiePolicy {
+  const policy = (value || 'competition') as RankTiePolicy;
+  if (!RANK_TIE_POLICIES.includes(policy)) {
+    throw new Error(
+      `Unsupported RANK_TIE_POLICY "${value}". Expected one of: ${RANK_TIE_POLICIES.join(', ')}`,
+    );
+  }
+  return policy;
+}
+
+/**
+ * 정렬 키로부터 SQL ORDER BY 본문을 생성함
+ *
+ * @remarks
+ * 컬럼명은 SortKey의 field 화이트리스트에서만 오므로 raw로 삽입해도 안전함
+ *
+ * @param keys - 정렬 키 목록
+ */
+export function sortKeysToSql(keys: SortKey[]): Prisma.Sql {
+  return Prisma.join(
+    keys.map((key) =>
+      Prisma.raw(
+        `"${key.field}" ${key.direction.toUpperCase()}${key.nullable ? ' NULLS LAST' : ''}`,
+      ),
+    ),
+    ', ',
+  );
+}
+
+/**
+ * 순위 계산에 사용할 윈도 함수 SQL을 생성함
+ *
+ * @remarks
+ * competition/dense 정책은 타이브레이커를 제외한 키로만 동점을 판정하고,
+ * createdAt 정책은 타이브레이커까지 포함한 전체 순서로 번호를 매김
+ *
+ * @param policy - 동점자 순위 부여 정책
+ * @param keys - 랭킹 정렬 키 목록
+ */
+export function rankWindowSql(
+  policy: RankTiePolicy,
+  keys: SortKey[],
+): Prisma.Sql {
+  const rankingKeys = keys.filter((key) => !key.tieBreaker);
+
+  switch (policy) {
+    case 'dense':
+      return Prisma.sql`DENSE_RANK() OVER (ORDER BY ${sortKeysToSql(rankingKeys)})`;
+    case 'createdAt':
+      return Prisma.sql`ROW_NUMBER() OVER (ORDER BY ${sortKeysToSql(keys)})`;
+    default:
+      return Prisma.sql`RANK() OVER (ORDER BY ${sortKeysToSql(rankingKeys)})`;
+  }
+}
+
+/**
+ * 순위 계산 SQL에서 기준 행으로 쓰는 정렬 키 값
+ */
+type SortKeyRow = Partial<Record<SortKey['field'], CursorValue>>;
+
+/**
+ * 주어진 행보다 정렬 순서상 앞에 있는 행만 남기는 SQL 조건을 생성함
+ *
+ * @remarks
+ * buildKeysetWhere의 prev 방향과 같은 조건으로, (k1, k2, ..., kn) 정렬에서
+ * k1이 앞 OR (k1 동일 AND k2가 앞) OR ... 로 전개됨 (NULL은 항상 마지막)
+ * 정렬 키 인덱스를 그대로 탈 수 있는 범위 조건만 사용함
+ *
+ * @param keys - 정렬 키 목록
+ * @param row - 기준 행 (정렬 키 컬럼 포함)
+ */
+export function rowsAheadSql(keys: SortKey[], row: SortKeyRow): Prisma.Sql {
+  return keysetSql(keys, row, (key, column, value) => {
+    if (value === null) {
+      return Prisma.sql`${column} IS NOT NULL`;
+    }
+    return key.direction === 'desc'
+      ? Prisma.sql`${column} > ${value}`
+      : Prisma.sql`${column} < ${value}`;
+  });
+}
+
+/**
+ * 주어진 행보다 정렬 순서상 뒤에 있는 행만 남기는 SQL 조건을 생성함
+ *
+ * @remarks
+ * rowsAheadSql의 반대 방향 조건으로, NULL은 항상 마지막이므로
+ * 기준 값이 NULL인 키에서는 뒤에 있는 행이 없고 nullable 키에서는 NULL인 행이 항상 뒤에 있음
+ *
+ * @param keys - 정렬 키 목록
+ * @param row - 기준 행 (정렬 키 컬럼 포함)
+ */
+export function rowsBehindSql(keys: SortKey[], row: SortKeyRow): Prisma.Sql {
+  return keysetSql(keys, row, (key, column, value) => {
+    if (value === null) {
+      return null;
+    }
+    const behind =
+      key.direction === 'desc'
+        ? Prisma.sql`${column} < ${value}`
+        : Prisma.sql`${column} > ${value}`;
+    return key.nullable ? Prisma.sql`(${behind} OR ${column} IS NULL)` : behind;
+  });
+}
+
+/**
+ * 주어진 행과 모든 정렬 키 값이 같은 행만 남기는 SQL 조건을 생성함 (NULL끼리도 같은 값으로 봄)
+ *
+ * @param keys - 정렬 키 목록
+ * @param row - 기준 행 (정렬 키 컬럼 포함)
+ */
+export function rowsEqualSql(keys: SortKey[], row: SortKeyRow): Prisma.Sql {
+  return keys.length > 0
+    ? Prisma.sql`(${Prisma.join(equalitiesSql(keys, row), ' AND ')})`
+    : Prisma.sql`TRUE`;
+}
+
+/**
+ * 한 유저의 순위를 계산하는 스칼라 서브쿼리 SQL을 생성함
+ *
+ * @remarks
+ * 전체 범위에 윈도 함수를 적용하지 않고, 기준 행보다 앞에 있는 행만 세어 순위를 구함
+ * - competition: 타이브레이커를 제외한 키로 앞선 행 수 + 1
+ * - dense: 앞선 행의 서로 다른 순위 키 조합 수 + 1
+ * - createdAt: 타이브레이커까지 포함한 전체 순서로 앞선 행 수 + 1
+ *
+ * @param policy - 동점자 순위 부여 정책
+ * @param keys - 랭킹 정렬 키 목록
+ * @param row - 순위를 계산할 행 (정렬 키 컬럼 포함)
+ * @param scopeSql - 순위 계산 대상을 제한하는 WHERE 조건 (휴지통 제외, 직업 범위 등)
+ */
+export function rankOfRowSql(
+  policy: RankTiePolicy,
+  keys: SortKey[],
+  row: SortKeyRow,
+  scopeSql: Prisma.Sql,
+): Prisma.Sql {
+  const rankingKeys = keys.filter((key) => !key.tieBreaker);
+
+  switch (policy) {
+    case 'dense': {
+      const columns = Prisma.raw(
+        rankingKeys.map((key) => `"${key.field}"`).join(', '),
+      );
+      return Prisma.sql`(
+        SELECT COUNT(*) + 1 FROM (
+          SELECT DISTINCT ${columns} FROM "User"
+          WHERE ${scopeSql} AND ${rowsAheadSql(rankingKeys, row)}
+        ) ahead
+      )`;
+    }
+    case 'createdAt':
+      return Prisma.sql`(
+        SELECT COUNT(*) + 1 FROM "User"
+        WHERE ${scopeSql} AND ${rowsAheadSql(keys, row)}
+      )`;
+    default:
+      return Prisma.sql`(
+        SELECT COUNT(*) + 1 FROM "User"
+        WHERE ${scopeSql} AND ${rowsAheadSql(rankingKeys, row)}
+      )`;
+  }
+}
+
+/**
+ * 한 페이지 유저들의 순위를 계산하는 SQL을 생성함
+ *
+ * @remarks
+ * 페이지에서 가장 앞선 행이 속한 동점 그룹의 순위만 rankOfRowSql로 한 번 세고,
+ * 나머지 순위는 가장 앞선 행과 가장 뒤의 행이 속한 동점 그룹 사이 범위에만 윈도 함수를 적용해 이어 붙임
+ * 정렬 순서대로 이어진 페이지는 페이지 크기만큼만 읽으므로 페이지 깊이와 관계없이 비용이 일정하고,
+ * 필터나 검색으로 순위가 띄엄띄엄한 목록은 그 사이 범위만큼 더 읽음
+ * userId 순서는 DB 콜레이션을 따르므로 범위의 경계는 userId를 제외한 키로만 정함
+ *
+ * @param policy - 동점자 순위 부여 정책
+ * @param keys - 랭킹 정렬 키 목록
+ * @param users - 순위를 계산할 유저 목록 (정렬 키 컬럼 포함, 1명 이상)
+ * @param scopeSql - 순위 계산 대상을 제한하는 WHERE 조건 (휴지통 제외, 직업 범위 등)
+ *
+ * @returns "userId", "rank" 컬럼을 가진 SELECT 문
+ */
+export function pageRanksSql(
+  policy: RankTiePolicy,
+  keys: SortKey[],
+  users: (SortKeyRow & { userId: string })[],
+  scopeSql: Prisma.Sql,
+): Prisma.Sql {
+  const boundKeys =
+    policy === 'createdAt'
+      ? keys.filter((key) => key.field !== 'userId')
+      : keys.filter((key) => !key.tieBreaker);
+  const sorted = [...users].sort((a, b) => compareRows(boundKeys, a, b));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return Prisma.sql`
+    SELECT "userId",
+      (${rankOfRowSql(policy, boundKeys, first, scopeSql)} + "windowRank" - 1)::int AS "rank"
+    FROM (
+      SELECT "userId", ${rankWindowSql(policy, keys)} AS "windowRank"
+      FROM "User"
+      WHERE ${scopeSql}
+        AND (${rowsBehindSql(boundKeys, first)} OR ${rowsEqualSql(boundKeys, first)})
+        AND (${rowsAheadSql(boundKeys, last)} OR ${rowsEqualSql(boundKeys, last)})
+    ) span
+    WHERE "userId" IN (${Prisma.join(users.map((user) => user.userId))})
+  `;
+}
+
+/**
+ * 정렬 키별 조건을 키셋 조건으로 전개함
+ * (k1 조건) OR (k1 동일 AND k2 조건) OR ... (조건이 없는 키는 건너뜀)
+ */
+function keysetSql(
+  keys: SortKey[],
+  row: SortKeyRow,
+  condition: (
+    key: SortKey,
+    column: Prisma.Sql,
+    value: CursorValue,
+  ) => Prisma.Sql | null,
+): Prisma.Sql {
+  const branches = keys.flatMap((key, index) => {
+    const beyond = condition(
+      key,
+      Prisma.raw(`"${key.field}"`),
+      row[key.field] ?? null,
+    );
+    if (!beyond) return [];
+
+    const equalities = equalitiesSql(keys.slice(0, index), row);
+    return [Prisma.sql`(${Prisma.join([...equalities, beyond], ' AND ')})`];
+  });
+
+  return branches.length > 0
+    ? Prisma.sql`(${Prisma.join(branches, ' OR ')})`
+    : Prisma.sql`FALSE`;
+}
+
+function equalitiesSql(keys: SortKey[], row: SortKeyRow): Prisma.Sql[] {
+  return keys.map((key) => {
+    const column = Prisma.raw(`"${key.field}"`);
+    const value = row[key.field] ?? null;
+    return value === null
+      ? Prisma.sql`${column} IS NULL`
+      : Prisma.sql`${column} = ${value}`;
+  });
+}
+
+/**
+ * 두 행을 정렬 키 순서로 비교함 (NULL은 항상 마지막)
+ */
+function compareRows(keys: SortKey[], a: SortKeyRow, b: SortKeyRow): number {
+  for (const key of keys) {
+    const left = a[key.field] ?? null;
+    const right = b[key.field] ?? null;
+    if (left === null || right === null) {
+      if (left !== right) return left === null ? 1 : -1;
+      continue;
+    }
+    const diff = left < right ? -1 : left > right ? 1 : 0;
+    if (diff !== 0) return key.direction === 'asc' ? diff : -diff;
+  }
+  return 0;
+}
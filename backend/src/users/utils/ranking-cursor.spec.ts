@@ -0,0 +1,150 @@
+import {
+  RANKING_SORT_KEYS,
+  buildKeysetWhere,
+  buildOrderBy,
+  decodeCursor,
+  encodeCursor,
+  getRankingSortKeys,
+} from './ranking-cursor';
+
+describe('ranking-cursor', () => {
+  const row = { level: 120, exp: 5000n, userId: 'abc' };
+
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip the sort key values and direction', () => {
+      const cursor = encodeCursor(RANKING_SORT_KEYS, row, 'next');
+
+      expect(decodeCursor(cursor, RANKING_SORT_KEYS)).toEqual({
+        values: [120, 5000n, 'abc'],
+        direction: 'next',
+      });
+    });
+
+    it('should keep BIGINT values beyond the safe integer range exact', () => {
+      const cursor = encodeCursor(
+        RANKING_SORT_KEYS,
+        { ...row, exp: 9007199254740993n },
+        'next',
+      );
+
+      expect(decodeCursor(cursor, RANKING_SORT_KEYS)?.values[1]).toBe(
+        9007199254740993n,
+      );
+    });
+
+    it('should keep null exp values', () => {
+      const cursor = encodeCursor(
+        RANKING_SORT_KEYS,
+        { ...row, exp: null },
+        'prev',
+      );
+
+      expect(decodeCursor(cursor, RANKING_SORT_KEYS)).toEqual({
+        values: [120, null, 'abc'],
+        direction: 'prev',
+      });
+    });
+
+    it('should reject malformed cursors', () => {
+      const wrongType = Buffer.from(
+        JSON.stringify({
+          k: 'level:desc,exp:desc,userId:asc',
+          v: ['120', '5000', 'abc'],
+          d: 'next',
+        }),
+      ).toString('base64url');
+
+      expect(decodeCursor('not-a-cursor', RANKING_SORT_KEYS)).toBeNull();
+      expect(decodeCursor(wrongType, RANKING_SORT_KEYS)).toBeNull();
+    });
+
+    it('should reject cursors created for another sort order', () => {
+      const cursor = encodeCursor(RANKING_SORT_KEYS, row, 'next');
+      const mesoKeys = getRankingSortKeys('competition', 'meso');
+      const ascendingKeys = getRankingSortKeys('competition', 'level', 'asc');
+
+      expect(decodeCursor(cursor, mesoKeys)).toBeNull();
+      expect(decodeCursor(cursor, ascendingKeys)).toBeNull();
+    });
+  });
+
+  describe('getRankingSortKeys', () => {
+    it('should apply the order to ranking keys only', () => {
+      expect(getRankingSortKeys('dense', 'meso', 'asc')).toEqual([
+        { field: 'meso', direction: 'asc', nullable: true },
+        {
+          field: 'userId',
+          direction: 'asc',
+          nullable: false,
+          tieBreaker: true,
+        },
+      ]);
+    });
+
+    it('should add createdAt as a tie-breaker for the createdAt policy', () => {
+      expect(getRankingSortKeys('createdAt').map((key) => key.field)).toEqual([
+        'level',
+        'exp',
+        'createdAt',
+        'userId',
+      ]);
+    });
+  });
+
+  describe('buildOrderBy', () => {
+    it('should put null exp last in both directions', () => {
+      expect(buildOrderBy(RANKING_SORT_KEYS)).toEqual([
+        { level: 'desc' },
+        { exp: { sort: 'desc', nulls: 'last' } },
+        { userId: 'asc' },
+      ]);
+      expect(buildOrderBy(RANKING_SORT_KEYS, true)).toEqual([
+        { level: 'asc' },
+        { exp: { sort: 'asc', nulls: 'first' } },
+        { userId: 'desc' },
+      ]);
+    });
+  });
+
+  describe('buildKeysetWhere', () => {
+    it('should seek past the cursor row in ranking order', () => {
+      expect(
+        buildKeysetWhere(RANKING_SORT_KEYS, [120, 5000, 'abc'], 'next'),
+      ).toEqual({
+        OR: [
+          { AND: [{ level: { lt: 120 } }] },
+          {
+            AND: [
+              { level: 120 },
+              { OR: [{ exp: { lt: 5000 } }, { exp: null }] },
+            ],
+          },
+          { AND: [{ level: 120 }, { exp: 5000 }, { userId: { gt: 'abc' } }] },
+        ],
+      });
+    });
+
+    it('should only compare userId among null exp rows going forward', () => {
+      expect(
+        buildKeysetWhere(RANKING_SORT_KEYS, [120, null, 'abc'], 'next'),
+      ).toEqual({
+        OR: [
+          { AND: [{ level: { lt: 120 } }] },
+          { AND: [{ level: 120 }, { exp: null }, { userId: { gt: 'abc' } }] },
+        ],
+      });
+    });
+
+    it('should seek before the cursor row for previous pages', () => {
+      expect(
+        buildKeysetWhere(RANKING_SORT_KEYS, [120, null, 'abc'], 'prev'),
+      ).toEqual({
+        OR: [
+          { AND: [{ level: { gt: 120 } }] },
+          { AND: [{ level: 120 }, { exp: { not: null } }] },
+          { AND: [{ level: 120 }, { exp: null }, { userId: { lt: 'abc' } }] },
+        ],
+      });
+    });
+  });
+});
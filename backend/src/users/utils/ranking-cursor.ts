@@ -0,0 +1,268 @@
+import { Prisma } from '@prisma/client';
+import { RankTiePolicy } from './rank-window';
+import { parseBigInt } from '../../common/utils/bigint';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type CursorDirection = 'next' | 'prev';
+
+export type CursorValue = string | number | bigint | Date | null;
+
+/**
+ * BIGINT 컬럼인 정렬 키 (커서에는 JSON 숫자의 정밀도를 넘지 않도록 문자열로 담음)
+ */
+const BIGINT_FIELDS = new Set<SortKey['field']>(['exp', 'meso']);
+
+/**
+ * 랭킹 정렬 기준
+ *
+ * - level: 레벨 → 경험치
+ * - meso: 보유 메소
+ * - playTime: 플레이 타임
+ */
+export type RankingSortBy = 'level' | 'meso' | 'playTime';
+
+export const RANKING_SORT_BY: RankingSortBy[] = ['level', 'meso', 'playTime'];
+
+/**
+ * 키셋(커서) 페이지네이션에 사용되는 정렬 키
+ *
+ * @remarks
+ * nullable 컬럼은 정렬 방향과 관계없이 항상 NULL을 마지막에 둠
+ * tieBreaker는 순위 동점 판정에는 쓰이지 않고 목록 순서만 고정하는 키임
+ */
+export interface SortKey {
+  field: 'level' | 'exp' | 'meso' | 'playTime' | 'createdAt' | 'userId';
+  direction: SortDirection;
+  nullable: boolean;
+  tieBreaker?: boolean;
+}
+
+/**
+ * 디코딩된 커서
+ *
+ * @remarks
+ * values는 정렬 키 순서대로 기준 행의 값을 담고 있으며,
+ * direction은 기준 행의 다음 페이지를 요청하는지 이전 페이지를 요청하는지를 나타냄
+ */
+export interface RankingCursor {
+  values: CursorValue[];
+  direction: CursorDirection;
+}
+
+/**
+ * 정렬 기준별 순위 판정 키 (내림차순 기준)
+ */
+const RANKING_CRITERIA_KEYS: Record<RankingSortBy, SortKey[]> = {
+  level: [
+    { field: 'level', direction: 'desc', nullable: false },
+    { field: 'exp', direction: 'desc', nullable: true },
+  ],
+  meso: [{ field: 'meso', direction: 'desc', nullable: true }],
+  playTime: [{ field: 'playTime', direction: 'desc', nullable: true }],
+};
+
+/**
+ * 기본 랭킹 정렬 키 (레벨 내림차순 → 경험치 내림차순 → userId 오름차순)
+ * 마지막 userId는 동점자 간 순서를 고정하기 위한 타이브레이커
+ */
+export const RANKING_SORT_KEYS: SortKey[] = [
+  ...RANKING_CRITERIA_KEYS.level,
+  { field: 'userId', direction: 'asc', nullable: false, tieBreaker: true },
+];
+
+/**
+ * 정렬 기준과 순위 정책에 맞는 랭킹 정렬 키를 반환함
+ *
+ * @remarks
+ * 정렬 방향(order)은 순위 판정 키에만 적용되며, 타이브레이커는 항상 오름차순임
+ * createdAt 정책에서는 순위 번호와 목록 순서가 일치하도록 생성일을 타이브레이커에 추가함
+ *
+ * @param policy - 동점자 순위 부여 정책
+ * @param sortBy - 정렬 기준
+ * @param order - 정렬 방향
+ */
+export function getRankingSortKeys(
+  policy: RankTiePolicy,
+  sortBy: RankingSortBy = 'level',
+  order: SortDirection = 'desc',
+): SortKey[] {
+  const criteriaKeys = RANKING_CRITERIA_KEYS[sortBy].map((key) => ({
+    ...key,
+    direction: order,
+  }));
+  const tieBreakers: SortKey[] = [
+    ...(policy === 'createdAt'
+      ? [
+          {
+            field: 'createdAt',
+            direction: 'asc',
+            nullable: false,
+            tieBreaker: true,
+          } as const,
+        ]
+      : []),
+    { field: 'userId', direction: 'asc', nullable: false, tieBreaker: true },
+  ];
+  return [...criteriaKeys, ...tieBreakers];
+}
+
+/**
+ * 기준 행과 방향을 불투명한 커서 문자열(base64url)로 인코딩함
+ *
+ * @param keys - 정렬 키 목록
+ * @param row - 커서의 기준이 되는 행
+ * @param direction - 커서가 가리키는 방향
+ */
+export function encodeCursor(
+  keys: SortKey[],
+  row: Record<string, unknown>,
+  direction: CursorDirection,
+): string {
+  const payload = {
+    k: sortSignature(keys),
+    v: keys.map((key) => {
+      const value = row[key.field] ?? null;
+      return typeof value === 'bigint' ? value.toString() : value;
+    }),
+    d: direction,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * 커서 문자열을 디코딩함
+ *
+ * @param raw - 클라이언트가 전달한 커서 문자열
+ * @param keys - 정렬 키 목록 (정렬 기준 일치 여부 및 값 검증용)
+ *
+ * @returns 디코딩된 커서, 형식이 올바르지 않거나 다른 정렬 기준의 커서이면 null
+ */
+export function decodeCursor(
+  raw: string,
+  keys: SortKey[],
+): RankingCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+
+    if (
+      !payload ||
+      payload.k !== sortSignature(keys) ||
+      !Array.isArray(payload.v) ||
+      payload.v.length !== keys.length ||
+      (payload.d !== 'next' && payload.d !== 'prev')
+    ) {
+      return null;
+    }
+
+    const valid = keys.every((key, index) => {
+      const value = payload.v[index];
+      if (value === null) return key.nullable;
+      if (key.field === 'userId') return typeof value === 'string';
+      if (key.field === 'createdAt') {
+        return typeof value === 'string' && !isNaN(Date.parse(value));
+      }
+      if (BIGINT_FIELDS.has(key.field)) return parseBigInt(value) !== null;
+      return Number.isInteger(value);
+    });
+    if (!valid) return null;
+
+    // JSON으로 직렬화된 날짜 문자열을 Date로, BIGINT 값 문자열을 bigint로 복원
+    const values = keys.map((key, index) => {
+      const value = payload.v[index];
+      if (value === null) return null;
+      if (key.field === 'createdAt') return new Date(value);
+      return BIGINT_FIELDS.has(key.field) ? parseBigInt(value) : value;
+    });
+
+    return { values, direction: payload.d };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 정렬 키로부터 Prisma orderBy 절을 생성함
+ *
+ * @param keys - 정렬 키 목록
+ * @param reverse - true이면 모든 정렬 방향을 뒤집음 (이전 페이지 조회용)
+ */
+export function buildOrderBy(
+  keys: SortKey[],
+  reverse = false,
+): Prisma.UserOrderByWithRelationInput[] {
+  return keys.map((key) => {
+    const sort = reverse ? flip(key.direction) : key.direction;
+    if (!key.nullable) {
+      return { [key.field]: sort };
+    }
+    return { [key.field]: { sort, nulls: reverse ? 'first' : 'last' } };
+  });
+}
+
+/**
+ * 커서 기준 행의 다음(또는 이전) 행만 남기는 키셋 where 절을 생성함
+ *
+ * @remarks
+ * (k1, k2, ..., kn) 정렬에서 "기준 행 이후"는
+ * k1 이후 OR (k1 동일 AND k2 이후) OR ... 로 전개됨
+ *
+ * @param keys - 정렬 키 목록
+ * @param values - 기준 행의 정렬 키 값
+ * @param direction - 'next'이면 기준 행 이후, 'prev'이면 기준 행 이전
+ */
+export function buildKeysetWhere(
+  keys: SortKey[],
+  values: CursorValue[],
+  direction: CursorDirection,
+): Prisma.UserWhereInput {
+  const branches: Prisma.UserWhereInput[] = [];
+
+  keys.forEach((key, index) => {
+    const beyond = beyondCondition(key, values[index], direction);
+    if (!beyond) return;
+
+    const equalities = keys
+      .slice(0, index)
+      .map((prevKey, prevIndex) => ({ [prevKey.field]: values[prevIndex] }));
+
+    branches.push({ AND: [...equalities, beyond] });
+  });
+
+  return { OR: branches };
+}
+
+/**
+ * 단일 정렬 키에서 기준 값을 "넘어서는" 조건을 생성함
+ * NULL은 항상 마지막이므로 next 방향에서 NULL 기준 값을 넘어서는 행은 없음
+ */
+function beyondCondition(
+  key: SortKey,
+  value: CursorValue,
+  direction: CursorDirection,
+): Prisma.UserWhereInput | null {
+  const forward = direction === 'next';
+  const operator: 'lt' | 'gt' =
+    (key.direction === 'desc') === forward ? 'lt' : 'gt';
+
+  if (value === null) {
+    return forward ? null : { [key.field]: { not: null } };
+  }
+
+  const compare = { [key.field]: { [operator]: value } };
+  if (key.nullable && forward) {
+    return { OR: [compare, { [key.field]: null }] };
+  }
+  return compare;
+}
+
+/**
+ * 커서가 생성된 정렬 기준을 식별하기 위한 서명 (예: "level:desc,exp:desc,userId:asc")
+ */
+function sortSignature(keys: SortKey[]): string {
+  return keys.map((key) => `${key.field}:${key.direction}`).join(',');
+}
+
+function flip(direction: SortDirection): SortDirection {
+  return direction === 'asc' ? 'desc' : 'asc';
+}
@@ -0,0 +1,24 @@
+import { escapeLikePattern, prefixUpperBound } from './search-pattern';
+
+describe('search-pattern', () => {
+  describe('escapeLikePattern', () => {
+    it('should escape LIKE wildcards and backslashes', () => {
+      expect(escapeLikePattern('50%_off\\')).toBe('50\\%\\_off\\\\');
+    });
+  });
+
+  describe('prefixUpperBound', () => {
+    it('should increment the last code point', () => {
+      expect(prefixUpperBound('abc')).toBe('abd');
+      expect(prefixUpperBound('홍길')).toBe('홍긹');
+    });
+
+    it('should bound every string starting with the prefix', () => {
+      const upper = prefixUpperBound('ab');
+
+      expect('ab' < upper).toBe(true);
+      expect('abzzz' < upper).toBe(true);
+      expect('ac' >= upper).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * 검색 결과의 일치 유형 (정렬 우선순위 순)
+ *
+ * - exact: userId 또는 닉네임이 검색어와 정확히 일치 (대소문자 무시)
+ * - prefix: 검색어로 시작
+ * - partial: 검색어를 포함
+ * - former: 이전 닉네임만 검색어와 일치 (includeFormerNicknames 옵션 사용 시)
+ * - fuzzy: 트라이그램 유사도로만 일치 (오타 등)
+ */
+export type SearchMatchType =
+  | 'exact'
+  | 'prefix'
+  | 'partial'
+  | 'former'
+  | 'fuzzy';
+
+/**
+ * SQL에서 계산한 일치 순위(0 ~ 4)를 일치 유형으로 변환하기 위한 목록
+ */
+export const SEARCH_MATCH_TYPES: SearchMatchType[] = [
+  'exact',
+  'prefix',
+  'partial',
+  'former',
+  'fuzzy',
+];
+
+/**
+ * LIKE 패턴에서 특수한 의미를 갖는 문자(%, _, \)를 이스케이프함
+ *
+ * @param value - 사용자가 입력한 검색어
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * 접두어로 시작하는 모든 문자열보다 큰 가장 작은 문자열을 반환함
+ *
+ * @remarks
+ * 마지막 문자의 코드 포인트를 1 올린 값으로, UTF-8 바이트 순서와 코드 포인트 순서가 같으므로
+ * text_pattern_ops 인덱스에서 `col ~>=~ prefix AND col ~<~ upperBound` 범위 탐색에 사용할 수 있음
+ *
+ * @example
+ * prefixUpperBound('abc') // 'abd'
+ *
+ * @param prefix - 비어 있지 않은 접두어
+ */
+export function prefixUpperBound(prefix: string): string {
+  const chars = Array.from(prefix);
+  const last = chars.pop()!.codePointAt(0)!;
+  return chars.join('') + String.fromCodePoint(last + 1);
+}
@@ -0,0 +1,105 @@
+import {
+  USER_FILTER_PARAMS,
+  buildUserFilterSql,
+  buildUserFilterWhere,
+  parseUserFilterQuery,
+  resolveDateRange,
+} from './user-filter';
+
+describe('user-filter', () => {
+  describe('parseUserFilterQuery', () => {
+    it('should read ranges and comma separated lists', () => {
+      expect(
+        parseUserFilterQuery({
+          levelMin: '200',
+          levelMax: '250',
+          mesoMin: '10000000000',
+          createdFrom: '2024-01-01',
+          createdTo: '2024-12-31',
+          jobs: '히어로, 팔라딘',
+          jobCodes: ['1', '2'],
+          page: '3',
+        }),
+      ).toEqual({
+        level: { min: 200, max: 250 },
+        meso: { min: 10000000000n },
+        createdAt: { from: '2024-01-01', to: '2024-12-31' },
+        jobs: ['히어로', '팔라딘'],
+        jobCodes: [1, 2],
+      });
+    });
+
+    it('should leave unparsable numbers as NaN for validation', () => {
+      expect(parseUserFilterQuery({ expMax: 'abc', playTimeMin: '' })).toEqual({
+        exp: { max: NaN },
+        playTime: { min: NaN },
+      });
+    });
+
+    it('should keep BIGINT ranges exact and reject non-integer notation', () => {
+      expect(
+        parseUserFilterQuery({ expMin: '9007199254740993', mesoMax: '1e9' }),
+      ).toEqual({
+        exp: { min: 9007199254740993n },
+        meso: { max: NaN },
+      });
+    });
+  });
+
+  describe('USER_FILTER_PARAMS', () => {
+    it('should list exactly the params parseUserFilterQuery reads', () => {
+      for (const param of USER_FILTER_PARAMS) {
+        expect(parseUserFilterQuery({ [param]: '1' })).not.toEqual({});
+      }
+      expect(parseUserFilterQuery({ lvlMin: '1' })).toEqual({});
+    });
+  });
+
+  describe('resolveDateRange', () => {
+    it('should include the whole day for a date-only upper bound', () => {
+      expect(
+        resolveDateRange({ from: '2024-01-01', to: '2024-12-31' }),
+      ).toEqual({
+        gte: new Date('2024-01-01T00:00:00.000Z'),
+        lt: new Date('2025-01-01T00:00:00.000Z'),
+      });
+      expect(resolveDateRange({ to: '2024-12-31T12:00:00Z' })).toEqual({
+        lte: new Date('2024-12-31T12:00:00Z'),
+      });
+    });
+  });
+
+  describe('buildUserFilterWhere', () => {
+    it('should combine ranges and lists into a Prisma where', () => {
+      expect(
+        buildUserFilterWhere({
+          level: { min: 200, max: 250 },
+          meso: { min: 10000000000n },
+          jobs: ['히어로'],
+          jobCodes: [1],
+        }),
+      ).toEqual({
+        level: { gte: 200, lte: 250 },
+        meso: { gte: 10000000000n },
+        job: { in: ['히어로'] },
+        jobCode: { in: [1] },
+      });
+    });
+  });
+
+  describe('buildUserFilterSql', () => {
+    it('should produce parameterized conditions', () => {
+      const sql = buildUserFilterSql({
+        level: { min: 200 },
+        jobs: ['히어로', '팔라딘'],
+      });
+
+      expect(sql.text).toBe('"level" >= $1 AND "job" IN ($2,$3)');
+      expect(sql.values).toEqual([200, '히어로', '팔라딘']);
+    });
+
+    it('should be TRUE without any condition', () => {
+      expect(buildUserFilterSql({}).sql).toBe('TRUE');
+    });
+  });
+});
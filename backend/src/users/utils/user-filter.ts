@@ -0,0 +1,240 @@
+import { Prisma } from '@prisma/client';
+import { parseBigInt } from '../../common/utils/bigint';
+import { DateRange, UserFilter } from '../interfaces/user-filter.interface';
+
+/**
+ * 범위 필터를 지원하는 숫자 컬럼
+ */
+export const NUMERIC_FILTER_FIELDS = [
+  'level',
+  'exp',
+  'meso',
+  'playTime',
+] as const;
+
+/**
+ * 숫자 필터 컬럼 중 BIGINT 컬럼 (범위 값을 bigint로 파싱함)
+ */
+export const BIGINT_FILTER_FIELDS: ReadonlySet<string> = new Set([
+  'exp',
+  'meso',
+]);
+
+/**
+ * 범위 필터를 지원하는 날짜 컬럼
+ */
+export const DATE_FILTER_FIELDS = ['createdAt', 'updatedAt'] as const;
+
+/**
+ * 날짜 컬럼별 쿼리 파라미터 접두어 (createdFrom, createdTo 등)
+ */
+const DATE_QUERY_PREFIX: Record<(typeof DATE_FILTER_FIELDS)[number], string> = {
+  createdAt: 'created',
+  updatedAt: 'updated',
+};
+
+/**
+ * parseUserFilterQuery가 인식하는 파라미터 이름 목록
+ */
+export const USER_FILTER_PARAMS: string[] = [
+  ...NUMERIC_FILTER_FIELDS.flatMap((field) => [`${field}Min`, `${field}Max`]),
+  ...DATE_FILTER_FIELDS.flatMap((field) => [
+    `${DATE_QUERY_PREFIX[field]}From`,
+    `${DATE_QUERY_PREFIX[field]}To`,
+  ]),
+  'jobs',
+  'jobCodes',
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 쿼리 스트링을 유저 필터로 변환함
+ *
+ * @remarks
+ * 형식 검사는 하지 않으며, 숫자로 읽을 수 없는 값은 NaN으로 남겨 서비스의 유효성 검사에서 거르도록 함
+ *
+ * - levelMin, levelMax, expMin, expMax, mesoMin, mesoMax, playTimeMin, playTimeMax
+ * - createdFrom, createdTo, updatedFrom, updatedTo
+ * - jobs, jobCodes (쉼표로 구분한 목록)
+ *
+ * @param query - 컨트롤러가 받은 쿼리 파라미터 또는 쿼리 DTO (필터 이외의 필드는 무시함)
+ */
+export function parseUserFilterQuery(query: object): UserFilter {
+  const filter: UserFilter = {};
+  // 같은 파라미터가 반복되면(?jobs=a&jobs=b) 쉼표로 구분한 목록과 같게 취급
+  const param = (name: string) => {
+    const value: unknown = (query as Record<string, unknown>)[name];
+    if (Array.isArray(value)) return value.join(',');
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  for (const field of NUMERIC_FILTER_FIELDS) {
+    const min = param(`${field}Min`);
+    const max = param(`${field}Max`);
+    if (min === undefined && max === undefined) continue;
+
+    const parse = BIGINT_FILTER_FIELDS.has(field)
+      ? parseBigIntParam
+      : parseNumber;
+    filter[field] = {
+      ...(min !== undefined && { min: parse(min) }),
+      ...(max !== undefined && { max: parse(max) }),
+    };
+  }
+
+  for (const field of DATE_FILTER_FIELDS) {
+    const from = param(`${DATE_QUERY_PREFIX[field]}From`);
+    const to = param(`${DATE_QUERY_PREFIX[field]}To`);
+    if (from === undefined && to === undefined) continue;
+
+    filter[field] = {
+      ...(from !== undefined && { from }),
+      ...(to !== undefined && { to }),
+    };
+  }
+
+  const jobs = param('jobs');
+  if (jobs !== undefined) {
+    filter.jobs = splitList(jobs);
+  }
+  const jobCodes = param('jobCodes');
+  if (jobCodes !== undefined) {
+    filter.jobCodes = splitList(jobCodes).map(parseNumber);
+  }
+
+  return filter;
+}
+
+/**
+ * 날짜 범위 문자열을 비교에 사용할 Date 경계로 변환함
+ *
+ * @remarks
+ * 날짜만 주어진 to는 다음 날 0시 미만(lt)으로 바꿔 해당 날짜 전체를 포함함
+ *
+ * @param range - 유효성 검사를 통과한 날짜 범위
+ */
+export function resolveDateRange(range: DateRange): {
+  gte?: Date;
+  lte?: Date;
+  lt?: Date;
+} {
+  const bounds: { gte?: Date; lte?: Date; lt?: Date } = {};
+
+  if (range.from !== undefined) {
+    bounds.gte = new Date(range.from);
+  }
+  if (range.to !== undefined) {
+    if (DATE_ONLY.test(range.to)) {
+      const nextDay = new Date(range.to);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      bounds.lt = nextDay;
+    } else {
+      bounds.lte = new Date(range.to);
+    }
+  }
+
+  return bounds;
+}
+
+/**
+ * 유저 필터를 Prisma where 절로 변환함
+ *
+ * @param filter - 유효성 검사를 통과한 유저 필터
+ */
+export function buildUserFilterWhere(
+  filter: UserFilter,
+): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = {};
+
+  for (const field of NUMERIC_FILTER_FIELDS) {
+    const range = filter[field];
+    if (!range) continue;
+
+    // INT/BIGINT 컬럼마다 필터 타입이 달라 필드별로 좁히지 않고 할당함 (값은 검증을 통과한 상태)
+    Object.assign(where, {
+      [field]: {
+        ...(range.min !== undefined && { gte: range.min }),
+        ...(range.max !== undefined && { lte: range.max }),
+      },
+    });
+  }
+
+  for (const field of DATE_FILTER_FIELDS) {
+    const range = filter[field];
+    if (range) {
+      where[field] = resolveDateRange(range);
+    }
+  }
+
+  if (filter.jobs) {
+    where.job = { in: filter.jobs };
+  }
+  if (filter.jobCodes) {
+    where.jobCode = { in: filter.jobCodes };
+  }
+
+  return where;
+}
+
+/**
+ * 유저 필터를 원시 SQL 조건으로 변환함 (검색처럼 $queryRaw를 사용하는 조회용)
+ *
+ * @remarks
+ * 컬럼명은 필터 필드 화이트리스트에서만 오므로 raw로 삽입해도 안전함
+ *
+ * @param filter - 유효성 검사를 통과한 유저 필터
+ *
+ * @returns AND로 결합된 조건, 조건이 없으면 TRUE
+ */
+export function buildUserFilterSql(filter: UserFilter): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+
+  for (const field of NUMERIC_FILTER_FIELDS) {
+    const range = filter[field];
+    if (!range) continue;
+
+    const column = Prisma.raw(`"${field}"`);
+    if (range.min !== undefined) {
+      conditions.push(Prisma.sql`${column} >= ${range.min}`);
+    }
+    if (range.max !== undefined) {
+      conditions.push(Prisma.sql`${column} <= ${range.max}`);
+    }
+  }
+
+  for (const field of DATE_FILTER_FIELDS) {
+    const range = filter[field];
+    if (!range) continue;
+
+    const column = Prisma.raw(`"${field}"`);
+    const { gte, lte, lt } = resolveDateRange(range);
+    if (gte) conditions.push(Prisma.sql`${column} >= ${gte}`);
+    if (lte) conditions.push(Prisma.sql`${column} <= ${lte}`);
+    if (lt) conditions.push(Prisma.sql`${column} < ${lt}`);
+  }
+
+  if (filter.jobs) {
+    conditions.push(Prisma.sql`"job" IN (${Prisma.join(filter.jobs)})`);
+  }
+  if (filter.jobCodes) {
+    conditions.push(Prisma.sql`"jobCode" IN (${Prisma.join(filter.jobCodes)})`);
+  }
+
+  return conditions.length > 0
+    ? Prisma.join(conditions, ' AND ')
+    : Prisma.sql`TRUE`;
+}
+
+function parseNumber(value: string): number {
+  return value.trim() === '' ? NaN : Number(value);
+}
+
+// BIGINT 범위는 정밀도를 잃지 않도록 정수 문자열만 받음 (지수 표기 등은 NaN으로 남겨 검증에서 거부)
+function parseBigIntParam(value: string): bigint | number {
+  return parseBigInt(value) ?? NaN;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim());
+}
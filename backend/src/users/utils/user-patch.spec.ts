@@ -0,0 +1,95 @@
+import {
+  buildPatchChangeWhere,
+  buildPatchData,
+  buildPatchOutOfRangeWhere,
+  diffUserPatch,
+  getPatchedFields,
+} from './user-patch';
+
+describe('user-patch', () => {
+  const patch = {
+    set: { job: '나이트로드' },
+    increment: { playTime: 60 },
+  };
+
+  describe('getPatchedFields', () => {
+    it('should list set fields before increment fields', () => {
+      expect(getPatchedFields(patch)).toEqual(['job', 'playTime']);
+      expect(getPatchedFields({ set: { job: undefined } })).toEqual([]);
+    });
+  });
+
+  describe('buildPatchData', () => {
+    it('should overwrite set fields and increment the others', () => {
+      expect(buildPatchData(patch)).toEqual({
+        job: '나이트로드',
+        playTime: { increment: 60 },
+      });
+      expect(buildPatchData({ set: { job: null } })).toEqual({ job: null });
+    });
+  });
+
+  describe('buildPatchChangeWhere', () => {
+    it('should only match rows whose values would change', () => {
+      expect(buildPatchChangeWhere(patch)).toEqual({
+        OR: [
+          { OR: [{ job: { not: '나이트로드' } }, { job: null }] },
+          { playTime: { not: null } },
+        ],
+      });
+    });
+
+    it('should match non-null values when clearing a field', () => {
+      expect(buildPatchChangeWhere({ set: { job: null } })).toEqual({
+        OR: [{ job: { not: null } }],
+      });
+    });
+
+    it('should match nothing when the patch changes nothing', () => {
+      expect(buildPatchChangeWhere({ increment: { level: 0 } })).toEqual({
+        id: { in: [] },
+      });
+    });
+  });
+
+  describe('buildPatchOutOfRangeWhere', () => {
+    it('should find values that would leave the allowed range', () => {
+      expect(
+        buildPatchOutOfRangeWhere({ increment: { level: -10, meso: 100n } }),
+      ).toEqual({
+        OR: [{ level: { lt: 11 } }, { meso: { gt: 9223372036854775707n } }],
+      });
+    });
+
+    it('should be null without increments', () => {
+      expect(buildPatchOutOfRangeWhere({ set: { level: 1 } })).toBeNull();
+    });
+  });
+
+  describe('diffUserPatch', () => {
+    it('should report only the fields that change', () => {
+      expect(
+        diffUserPatch({ job: '나이트로드', playTime: 120 }, patch),
+      ).toEqual({
+        before: { playTime: 120 },
+        after: { playTime: 180 },
+      });
+    });
+
+    it('should add increments to BIGINT values exactly', () => {
+      expect(
+        diffUserPatch({ exp: 9007199254740993n }, { increment: { exp: 10n } }),
+      ).toEqual({
+        before: { exp: 9007199254740993n },
+        after: { exp: 9007199254741003n },
+      });
+    });
+
+    it('should leave null values untouched by increments', () => {
+      expect(diffUserPatch({ job: '허밋', playTime: null }, patch)).toEqual({
+        before: { job: '허밋' },
+        after: { job: '나이트로드' },
+      });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { Prisma } from '@prisma/client';
+import {
+  UserPatch,
+  UserPatchIncrementField,
+  UserPatchSetField,
+} from '../interfaces/user-patch.interface';
+import { MAX_BIGINT } from '../../common/utils/bigint';
+
+/**
+ * INT 컬럼에 저장할 수 있는 최댓값
+ */
+const MAX_INT = 2147483647n;
+
+/**
+ * increment 필드별 허용 범위 (level은 1 이상, 나머지는 0 이상, 컬럼 타입의 최댓값 이하)
+ *
+ * @remarks
+ * meso, exp는 BIGINT 컬럼이라 bigint로 계산하며, 나머지는 INT 컬럼이라 비교 값을 number로 변환함
+ */
+const VALUE_RANGES: Record<
+  UserPatchIncrementField,
+  { min: bigint; max: bigint; bigint: boolean }
+> = {
+  level: { min: 1n, max: MAX_INT, bigint: false },
+  meso: { min: 0n, max: MAX_BIGINT, bigint: true },
+  exp: { min: 0n, max: MAX_BIGINT, bigint: true },
+  playTime: { min: 0n, max: MAX_INT, bigint: false },
+};
+
+type PatchedRow = Partial<
+  Record<UserPatchSetField, string | number | bigint | null>
+>;
+
+/**
+ * 패치에서 실제로 지정된 set 필드와 값 목록
+ */
+function setEntries(patch: UserPatch) {
+  return Object.entries(patch.set ?? {}).filter(
+    ([, value]) => value !== undefined,
+  ) as [UserPatchSetField, string | number | bigint | null][];
+}
+
+/**
+ * 패치에서 실제로 지정된 increment 필드와 값 목록 (0인 값 포함)
+ */
+function incrementEntries(patch: UserPatch) {
+  return Object.entries(patch.increment ?? {}).filter(
+    ([, value]) => value !== undefined,
+  ) as [UserPatchIncrementField, number | bigint][];
+}
+
+/**
+ * 패치가 바꾸는 필드 목록 (set → increment 순서)
+ */
+export function getPatchedFields(patch: UserPatch): UserPatchSetField[] {
+  return [
+    ...setEntries(patch).map(([field]) => field),
+    ...incrementEntries(patch).map(([field]) => field),
+  ];
+}
+
+/**
+ * 패치를 Prisma updateMany의 data로 변환함
+ *
+ * @param patch - 유효성 검사를 통과한 패치
+ */
+export function buildPatchData(
+  patch: UserPatch,
+): Prisma.UserUpdateManyMutationInput {
+  return {
+    ...Object.fromEntries(setEntries(patch)),
+    ...Object.fromEntries(
+      incrementEntries(patch).map(([field, amount]) => [
+        field,
+        { increment: amount },
+      ]),
+    ),
+  };
+}
+
+/**
+ * 패치를 적용했을 때 값이 하나라도 바뀌는 유저만 남기는 where 절을 생성함
+ *
+ * @remarks
+ * 이미 같은 값인 유저는 수정하지 않아 updatedAt이 불필요하게 바뀌지 않도록 함
+ * increment는 NULL이 아닌 값만 바뀜
+ *
+ * @param patch - 유효성 검사를 통과한 패치
+ */
+export function buildPatchChangeWhere(patch: UserPatch): Prisma.UserWhereInput {
+  const conditions: Prisma.UserWhereInput[] = [
+    ...setEntries(patch).map(([field, value]) =>
+      value === null
+        ? { [field]: { not: null } }
+        : // NULL <> 값은 NULL이므로 NULL인 행은 따로 포함
+          { OR: [{ [field]: { not: value } }, { [field]: null }] },
+    ),
+    ...incrementEntries(patch)
+      .filter(([, amount]) => BigInt(amount) !== 0n)
+      .map(([field]) => ({ [field]: { not: null } })),
+  ];
+
+  return conditions.length > 0 ? { OR: conditions } : { id: { in: [] } };
+}
+
+/**
+ * increment를 적용하면 허용 범위(level 1 이상, 나머지 0 이상, 컬럼 타입의 최댓값 이하)를
+ * 벗어나는 유저를 찾는 where 절을 생성함
+ *
+ * @param patch - 유효성 검사를 통과한 패치
+ *
+ * @returns 범위를 벗어날 수 있는 increment가 없으면 null
+ */
+export function buildPatchOutOfRangeWhere(
+  patch: UserPatch,
+): Prisma.UserWhereInput | null {
+  const conditions = incrementEntries(patch)
+    .filter(([, amount]) => BigInt(amount) !== 0n)
+    .map(([field, amount]) => {
+      const { min, max, bigint } = VALUE_RANGES[field];
+      const delta = BigInt(amount);
+      const bound = delta < 0n ? min - delta : max - delta;
+      const value = bigint ? bound : Number(bound);
+
+      return delta < 0n
+        ? { [field]: { lt: value } }
+        : { [field]: { gt: value } };
+    });
+
+  return conditions.length > 0 ? { OR: conditions } : null;
+}
+
+/**
+ * 유저 한 명에 패치를 적용했을 때 바뀌는 필드의 이전/이후 값을 계산함
+ *
+ * @param row - 패치 대상 필드를 포함한 유저 행
+ * @param patch - 유효성 검사를 통과한 패치
+ *
+ * @returns 값이 바뀌는 필드만 담은 before/after
+ */
+export function diffUserPatch(
+  row: PatchedRow,
+  patch: UserPatch,
+): { before: PatchedRow; after: PatchedRow } {
+  const before: PatchedRow = {};
+  const after: PatchedRow = {};
+
+  for (const [field, value] of setEntries(patch)) {
+    if (row[field] !== value) {
+      before[field] = row[field];
+      after[field] = value;
+    }
+  }
+  for (const [field, amount] of incrementEntries(patch)) {
+    const current = row[field];
+    if (BigInt(amount) === 0n) {
+      continue;
+    }
+    if (typeof current === 'bigint') {
+      before[field] = current;
+      after[field] = current + BigInt(amount);
+    } else if (typeof current === 'number') {
+      before[field] = current;
+      after[field] = current + Number(amount);
+    }
+  }
+
+  return { before, after };
+}
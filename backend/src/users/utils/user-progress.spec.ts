@@ -0,0 +1,35 @@
+import {
+  applyUserProgressChanges,
+  buildUserProgressEntry,
+} from './user-progress';
+
+describe('user-progress', () => {
+  const values = { level: 120, exp: 5000n, meso: null, playTime: 30 };
+
+  it('should record the initial values of a new user', () => {
+    expect(buildUserProgressEntry('abc', null, values)).toEqual({
+      userId: 'abc',
+      ...values,
+    });
+  });
+
+  it('should record every progress field when any of them changes', () => {
+    expect(
+      buildUserProgressEntry('abc', values, { ...values, meso: 100n }),
+    ).toEqual({ userId: 'abc', ...values, meso: 100n });
+  });
+
+  it('should skip unchanged values', () => {
+    expect(buildUserProgressEntry('abc', values, { ...values })).toBeNull();
+  });
+
+  it('should only overwrite the fields given in the changes', () => {
+    expect(
+      applyUserProgressChanges(values, {
+        level: 121,
+        exp: null,
+        meso: undefined,
+      }),
+    ).toEqual({ level: 121, exp: null, meso: null, playTime: 30 });
+  });
+});
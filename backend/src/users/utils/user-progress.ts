@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * 진행 이력(UserProgress)으로 기록하는 필드
+ */
+export const USER_PROGRESS_FIELDS = [
+  'level',
+  'exp',
+  'meso',
+  'playTime',
+] as const;
+
+export type UserProgressField = (typeof USER_PROGRESS_FIELDS)[number];
+
+/**
+ * 진행 이력 한 시점의 값
+ */
+export interface UserProgressValues {
+  level: number;
+  exp: bigint | null;
+  meso: bigint | null;
+  playTime: number | null;
+}
+
+/**
+ * 변경 전 값에 요청으로 바뀌는 필드를 덮어써 변경 후 값을 계산함
+ *
+ * @param previous - 변경 전 값
+ * @param changes - 바뀌는 필드와 값 (undefined인 필드는 그대로 둠)
+ */
+export function applyUserProgressChanges(
+  previous: UserProgressValues,
+  changes: Partial<UserProgressValues>,
+): UserProgressValues {
+  const pick = <K extends UserProgressField>(field: K) =>
+    changes[field] !== undefined ? changes[field] : previous[field];
+
+  return {
+    level: pick('level'),
+    exp: pick('exp'),
+    meso: pick('meso'),
+    playTime: pick('playTime'),
+  };
+}
+
+/**
+ * 변경 전후 값을 비교하여 진행 이력에 남길 항목을 생성함
+ *
+ * @remarks
+ * 이력에는 변경 후 네 필드의 값을 모두 기록하므로, 한 항목만으로 그 시점의 상태를 알 수 있음
+ *
+ * @param userId - 값이 바뀐 유저 ID
+ * @param previous - 변경 전 값 (새로 생성된 유저이면 null)
+ * @param next - 변경 후 값
+ *
+ * @returns 기록할 항목 (진행 필드가 하나도 바뀌지 않았으면 null)
+ */
+export function buildUserProgressEntry(
+  userId: string,
+  previous: UserProgressValues | null,
+  next: UserProgressValues,
+): Prisma.UserProgressCreateManyInput | null {
+  if (
+    previous &&
+    USER_PROGRESS_FIELDS.every((field) => previous[field] === next[field])
+  ) {
+    return null;
+  }
+
+  return {
+    userId,
+    level: next.level,
+    exp: next.exp,
+    meso: next.meso,
+    playTime: next.playTime,
+  };
+}
+
+/**
+ * 진행 이력 항목을 UserProgress에 기록함
+ *
+ * @remarks
+ * level, exp, meso, playTime을 변경하는 모든 경로(API, 임포트 스크립트)에서
+ * 유저 생성/수정과 같은 트랜잭션 안에서 호출해야 이력이 누락되지 않음
+ *
+ * @param tx - 유저 생성/수정에 사용한 트랜잭션 클라이언트
+ * @param entries - buildUserProgressEntry로 만든 항목 (null은 건너뜀)
+ *
+ * @returns 기록한 항목 수
+ */
+export async function recordUserProgress(
+  tx: Prisma.TransactionClient,
+  entries: (Prisma.UserProgressCreateManyInput | null)[],
+): Promise<number> {
+  const data = entries.filter(
+    (entry): entry is Prisma.UserProgressCreateManyInput => entry !== null,
+  );
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const { count } = await tx.userProgress.createMany({ data });
+  return count;
+}
@@ -0,0 +1,116 @@
+import { UserQueryParseError, parseUserQuery } from './user-query';
+
+describe('user-query', () => {
+  function parseError(input: string): UserQueryParseError {
+    try {
+      parseUserQuery(input);
+    } catch (error) {
+      return error as UserQueryParseError;
+    }
+    throw new Error(`Expected "${input}" to fail`);
+  }
+
+  it('should combine qualified terms with AND', () => {
+    const parsed = parseUserQuery('level:>200 job:히어로 nick:foo');
+
+    expect(parsed.qualified).toBe(true);
+    expect(parsed.where).toEqual({
+      AND: [
+        { level: { gt: 200 } },
+        { job: { equals: '히어로', mode: 'insensitive' } },
+        { nickname: { contains: 'foo', mode: 'insensitive' } },
+      ],
+    });
+  });
+
+  it('should support quoting and negation', () => {
+    const parsed = parseUserQuery('-nick:"bad \\"guy\\"" "two words"');
+
+    expect(parsed.where).toEqual({
+      AND: [
+        {
+          NOT: { nickname: { contains: 'bad "guy"', mode: 'insensitive' } },
+        },
+        {
+          OR: [
+            { userId: { contains: 'two words', mode: 'insensitive' } },
+            { nickname: { contains: 'two words', mode: 'insensitive' } },
+          ],
+        },
+      ],
+    });
+    expect(parsed.keywords).toEqual(['two words']);
+  });
+
+  it('should keep null values when negating a nullable field', () => {
+    expect(parseUserQuery('-job:히어로 -level:<100').where).toEqual({
+      AND: [
+        {
+          OR: [
+            { NOT: { job: { equals: '히어로', mode: 'insensitive' } } },
+            { job: null },
+          ],
+        },
+        { NOT: { level: { lt: 100 } } },
+      ],
+    });
+  });
+
+  it('should treat plain words as an unqualified keyword search', () => {
+    const parsed = parseUserQuery('  hero  ');
+
+    expect(parsed.qualified).toBe(false);
+    expect(parsed.keywords).toEqual(['hero']);
+  });
+
+  it('should expand date values to whole days', () => {
+    expect(parseUserQuery('created:2024-01-31').where).toEqual({
+      AND: [
+        {
+          createdAt: {
+            gte: new Date('2024-01-31T00:00:00.000Z'),
+            lt: new Date('2024-02-01T00:00:00.000Z'),
+          },
+        },
+      ],
+    });
+    expect(parseUserQuery('created:>2024-01-31').where).toEqual({
+      AND: [{ createdAt: { gte: new Date('2024-02-01T00:00:00.000Z') } }],
+    });
+  });
+
+  it('should parse BIGINT fields without losing precision', () => {
+    expect(parseUserQuery('meso:>=9007199254740993').where).toEqual({
+      AND: [{ meso: { gte: 9007199254740993n } }],
+    });
+    expect(parseError('exp:1.5').message).toContain('must be an integer');
+  });
+
+  it('should report the position of an unknown field', () => {
+    const error = parseError('level:>200 -foo:bar');
+
+    expect(error).toBeInstanceOf(UserQueryParseError);
+    expect(error.position).toBe(12);
+    expect(error.length).toBe(3);
+  });
+
+  it('should report the position of an invalid value', () => {
+    const error = parseError('job:히어로 level:>=abc');
+
+    expect(error.position).toBe(16);
+    expect(error.length).toBe(3);
+  });
+
+  it('should reject comparison operators on text fields', () => {
+    const error = parseError('nick:>foo');
+
+    expect(error.message).toContain('cannot be used');
+    expect(error.position).toBe(5);
+    expect(error.length).toBe(1);
+  });
+
+  it('should reject unterminated quotes and missing values', () => {
+    expect(parseError('nick:"foo').position).toBe(5);
+    expect(parseError('hero level:').position).toBe(5);
+  });
+});
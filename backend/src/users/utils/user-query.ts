@@ -0,0 +1,415 @@
+import { Prisma } from '@prisma/client';
+import { MAX_BIGINT, parseBigInt } from '../../common/utils/bigint';
+
+/**
+ * 검색창 질의어(query language) 파서
+ *
+ * @remarks
+ * 공백으로 구분된 조건을 모두 AND로 결합함
+ *
+ * - `field:value` - 필드 조건 (예: `job:히어로`, `nick:foo`)
+ * - `field:>value` - 비교 연산자 >, >=, <, <=, = (숫자/날짜 필드)
+ * - `"foo bar"`, `nick:"foo bar"` - 공백이 포함된 값은 큰따옴표로 감쌈 (\"로 따옴표 이스케이프)
+ * - `-term` - 조건 부정 (예: `-job:히어로`)
+ * - 필드 없는 단어 - userId 또는 닉네임에 포함되는지 검사
+ *
+ * @example
+ * parseUserQuery('level:>200 job:히어로 -nick:"bad guy"')
+ */
+
+type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+type FieldType = 'number' | 'bigint' | 'text' | 'date';
+
+interface FieldDefinition {
+  column:
+    | 'level'
+    | 'exp'
+    | 'meso'
+    | 'playTime'
+    | 'jobCode'
+    | 'job'
+    | 'nickname'
+    | 'userId'
+    | 'createdAt'
+    | 'updatedAt';
+  type: FieldType;
+  // NULL을 허용하는 컬럼 여부 (부정 조건에서 NULL인 행을 포함하기 위해 사용)
+  nullable?: boolean;
+}
+
+/**
+ * 질의어에서 사용할 수 있는 필드 이름 (대소문자 무시)
+ */
+const QUERY_FIELDS: Record<string, FieldDefinition> = {
+  level: { column: 'level', type: 'number' },
+  lv: { column: 'level', type: 'number' },
+  exp: { column: 'exp', type: 'bigint', nullable: true },
+  meso: { column: 'meso', type: 'bigint', nullable: true },
+  playtime: { column: 'playTime', type: 'number', nullable: true },
+  jobcode: { column: 'jobCode', type: 'number', nullable: true },
+  job: { column: 'job', type: 'text', nullable: true },
+  nick: { column: 'nickname', type: 'text' },
+  nickname: { column: 'nickname', type: 'text' },
+  id: { column: 'userId', type: 'text' },
+  userid: { column: 'userId', type: 'text' },
+  created: { column: 'createdAt', type: 'date' },
+  updated: { column: 'updatedAt', type: 'date' },
+};
+
+const OPERATORS: QueryOperator[] = ['>=', '<=', '>', '<', '='];
+
+/**
+ * 비교 연산자에 대응하는 Prisma 필터 연산자
+ */
+const PRISMA_OPERATORS: Record<QueryOperator, string> = {
+  '=': 'equals',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_TERMS = 20;
+const MAX_VALUE_LENGTH = 30;
+const MAX_INT = 2147483647;
+
+/**
+ * 질의어 파싱 에러
+ *
+ * @remarks
+ * position은 문제가 된 토큰의 시작 위치(0부터), length는 토큰 길이로,
+ * 클라이언트가 입력창에서 해당 부분을 강조하는 데 사용함
+ */
+export class UserQueryParseError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+    readonly length: number,
+  ) {
+    super(message);
+    this.name = 'UserQueryParseError';
+  }
+}
+
+/**
+ * 파싱된 단일 조건
+ */
+export interface UserQueryTerm {
+  negated: boolean;
+  field: string | null;
+  operator: QueryOperator;
+  value: string;
+  position: number;
+  valuePosition: number;
+}
+
+/**
+ * 질의어 파싱 결과
+ *
+ * @remarks
+ * keywords는 필드 없이 입력된(부정되지 않은) 단어 목록이며,
+ * qualified가 false이면 질의어가 단순 검색어로만 이루어졌음을 의미함
+ */
+export interface ParsedUserQuery {
+  terms: UserQueryTerm[];
+  keywords: string[];
+  qualified: boolean;
+  where: Prisma.UserWhereInput;
+}
+
+/**
+ * 질의어를 파싱하여 Prisma where 절로 변환함
+ *
+ * @param input - 검색창에 입력된 질의어
+ *
+ * @throws {UserQueryParseError} 문법 오류, 알 수 없는 필드, 유효하지 않은 값
+ */
+export function parseUserQuery(input: string): ParsedUserQuery {
+  if (input.length > MAX_QUERY_LENGTH) {
+    throw new UserQueryParseError(
+      `Query cannot exceed ${MAX_QUERY_LENGTH} characters`,
+      MAX_QUERY_LENGTH,
+      input.length - MAX_QUERY_LENGTH,
+    );
+  }
+
+  const terms = tokenize(input);
+  if (terms.length === 0) {
+    throw new UserQueryParseError('Query cannot be empty', 0, input.length);
+  }
+  if (terms.length > MAX_TERMS) {
+    throw new UserQueryParseError(
+      `Query cannot contain more than ${MAX_TERMS} terms`,
+      terms[MAX_TERMS].position,
+      input.length - terms[MAX_TERMS].position,
+    );
+  }
+
+  const conditions = terms.map((term) => {
+    const condition = buildTermCondition(term);
+    return term.negated ? negateCondition(term, condition) : condition;
+  });
+
+  return {
+    terms,
+    keywords: terms
+      .filter((term) => !term.field && !term.negated)
+      .map((term) => term.value),
+    qualified: terms.some((term) => term.field || term.negated),
+    where: { AND: conditions },
+  };
+}
+
+/**
+ * 질의어를 조건 단위로 분리함
+ */
+function tokenize(input: string): UserQueryTerm[] {
+  const terms: UserQueryTerm[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const position = index;
+    const negated =
+      input[index] === '-' &&
+      index + 1 < input.length &&
+      !/\s/.test(input[index + 1]);
+    if (negated) index++;
+
+    // 필드 이름: 따옴표로 시작하지 않는 단어 중 ':' 앞부분
+    let field: string | null = null;
+    const fieldMatch = /^([A-Za-z]+):/.exec(input.slice(index));
+    if (input[index] !== '"' && fieldMatch) {
+      field = fieldMatch[1];
+      index += fieldMatch[0].length;
+    }
+
+    let operator: QueryOperator = '=';
+    if (field) {
+      const matched = OPERATORS.find((op) => input.startsWith(op, index));
+      if (matched) {
+        operator = matched;
+        index += matched.length;
+      }
+    }
+
+    const valueStart = index;
+    let value: string;
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index);
+      value = quoted.value;
+      index = quoted.end;
+    } else {
+      while (index < input.length && !/\s/.test(input[index])) index++;
+      value = input.slice(valueStart, index);
+    }
+
+    if (value.length === 0) {
+      throw new UserQueryParseError(
+        field ? `Missing value for "${field}"` : 'Empty search term',
+        position,
+        index - position,
+      );
+    }
+    if (value.length > MAX_VALUE_LENGTH) {
+      throw new UserQueryParseError(
+        `Value cannot exceed ${MAX_VALUE_LENGTH} characters`,
+        valueStart,
+        index - valueStart,
+      );
+    }
+
+    terms.push({
+      negated,
+      field,
+      operator,
+      value,
+      position,
+      valuePosition: valueStart,
+    });
+  }
+
+  return terms;
+}
+
+/**
+ * 큰따옴표로 감싼 값을 읽음 (\"는 따옴표 문자로 취급)
+ *
+ * @returns 따옴표를 제거한 값과 닫는 따옴표 다음 위치
+ */
+function readQuoted(input: string, start: number) {
+  let value = '';
+  let index = start + 1;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (char === '\\' && input[index + 1] === '"') {
+      value += '"';
+      index += 2;
+      continue;
+    }
+    if (char === '"') {
+      return { value, end: index + 1 };
+    }
+    value += char;
+    index++;
+  }
+
+  throw new UserQueryParseError(
+    'Unterminated quoted value',
+    start,
+    input.length - start,
+  );
+}
+
+/**
+ * 단일 조건을 Prisma where 절로 변환함
+ */
+function buildTermCondition(term: UserQueryTerm): Prisma.UserWhereInput {
+  // 필드가 없는 단어는 userId 또는 닉네임 부분 일치
+  if (!term.field) {
+    return {
+      OR: [
+        { userId: { contains: term.value, mode: 'insensitive' } },
+        { nickname: { contains: term.value, mode: 'insensitive' } },
+      ],
+    };
+  }
+
+  const definition = QUERY_FIELDS[term.field.toLowerCase()];
+  if (!definition) {
+    throw new UserQueryParseError(
+      `Unknown field "${term.field}". Expected one of: ${Object.keys(QUERY_FIELDS).join(', ')}`,
+      term.position + (term.negated ? 1 : 0),
+      term.field.length,
+    );
+  }
+
+  switch (definition.type) {
+    case 'number':
+      return { [definition.column]: numberCondition(term) };
+    case 'bigint':
+      return { [definition.column]: bigintCondition(term) };
+    case 'date':
+      return { [definition.column]: dateCondition(term) };
+    case 'text':
+      // '='는 생략 가능하므로 비교 연산자(>, < 등)만 거부함
+      if (term.operator !== '=') {
+        throw new UserQueryParseError(
+          `Operator "${term.operator}" cannot be used with "${term.field}"`,
+          term.valuePosition - term.operator.length,
+          term.operator.length,
+        );
+      }
+      return textCondition(definition.column, term.value);
+  }
+}
+
+/**
+ * 조건을 부정함
+ *
+ * @remarks
+ * SQL의 3값 논리에서 NOT은 NULL인 행도 함께 제외하므로,
+ * nullable 필드의 부정 조건은 값이 NULL인 행을 다시 포함함 (예: `-job:히어로`는 직업이 없는 유저도 포함)
+ */
+function negateCondition(
+  term: UserQueryTerm,
+  condition: Prisma.UserWhereInput,
+): Prisma.UserWhereInput {
+  const definition = term.field && QUERY_FIELDS[term.field.toLowerCase()];
+  if (!definition || !definition.nullable) {
+    return { NOT: condition };
+  }
+  return { OR: [{ NOT: condition }, { [definition.column]: null }] };
+}
+
+function numberCondition(term: UserQueryTerm) {
+  const value = Number(term.value);
+  if (!Number.isInteger(value) || value < 0 || value > MAX_INT) {
+    throw new UserQueryParseError(
+      `"${term.field}" must be an integer between 0 and ${MAX_INT}`,
+      term.valuePosition,
+      term.value.length,
+    );
+  }
+
+  return comparison(term.operator, value);
+}
+
+// BIGINT 컬럼은 2^53을 넘는 값도 정확히 비교하도록 정수 문자열을 bigint로 변환함
+function bigintCondition(term: UserQueryTerm) {
+  const value = parseBigInt(term.value);
+  if (value === null || value < 0n || value > MAX_BIGINT) {
+    throw new UserQueryParseError(
+      `"${term.field}" must be an integer between 0 and ${MAX_BIGINT}`,
+      term.valuePosition,
+      term.value.length,
+    );
+  }
+
+  return comparison(term.operator, value);
+}
+
+function comparison(operator: QueryOperator, value: number | bigint) {
+  return { [PRISMA_OPERATORS[operator]]: value };
+}
+
+/**
+ * 날짜 조건 (YYYY-MM-DD, UTC 기준 하루 단위)
+ *
+ * @remarks
+ * `created:2024-01-01`은 해당 날짜 하루 전체를, `created:>2024-01-01`은 다음 날부터를 의미함
+ */
+function dateCondition(term: UserQueryTerm) {
+  const start = new Date(term.value);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(term.value) ||
+    isNaN(start.getTime()) ||
+    start.toISOString().slice(0, 10) !== term.value
+  ) {
+    throw new UserQueryParseError(
+      `"${term.field}" must be a date in YYYY-MM-DD format`,
+      term.valuePosition,
+      term.value.length,
+    );
+  }
+
+  const nextDay = new Date(start);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+  switch (term.operator) {
+    case '=':
+      return { gte: start, lt: nextDay };
+    case '>':
+      return { gte: nextDay };
+    case '>=':
+      return { gte: start };
+    case '<':
+      return { lt: start };
+    case '<=':
+      return { lt: nextDay };
+  }
+}
+
+/**
+ * 텍스트 조건
+ *
+ * @remarks
+ * 닉네임은 부분 일치, 직업명과 userId는 완전 일치(대소문자 무시)로 비교함
+ */
+function textCondition(
+  column: FieldDefinition['column'],
+  value: string,
+): Prisma.UserWhereInput {
+  const mode = 'insensitive' as const;
+  if (column === 'nickname') {
+    return { nickname: { contains: value, mode } };
+  }
+  return { [column]: { equals: value, mode } };
+}
@@ -0,0 +1,29 @@
+import { parseExpectedUpdatedAt, parseIfMatch, toETag } from './user-version';
+
+describe('user-version', () => {
+  const updatedAt = new Date('2024-12-20T01:22:08.123Z');
+
+  it('should round-trip updatedAt through an ETag', () => {
+    expect(toETag(updatedAt)).toBe('"1734657728123"');
+    expect(parseIfMatch(toETag(updatedAt))).toEqual(updatedAt);
+    expect(parseIfMatch(`W/${toETag(updatedAt)}`)).toEqual(updatedAt);
+  });
+
+  it('should treat a missing or wildcard If-Match as unconditional', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('should reject malformed If-Match values', () => {
+    expect(parseIfMatch('1734657728123')).toBeNull();
+    expect(parseIfMatch('"abc"')).toBeNull();
+  });
+
+  it('should parse expectedUpdatedAt as an ISO 8601 date-time', () => {
+    expect(parseExpectedUpdatedAt('2024-12-20T01:22:08.123Z')).toEqual(
+      updatedAt,
+    );
+    expect(parseExpectedUpdatedAt(undefined)).toBeUndefined();
+    expect(parseExpectedUpdatedAt('2024-12-20')).toBeNull();
+  });
+});
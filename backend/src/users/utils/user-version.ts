@@ -0,0 +1,61 @@
+/**
+ * 유저 레코드 버전(updatedAt) 기반 낙관적 동시성 제어 유틸리티
+ *
+ * @remarks
+ * 유저의 버전은 updatedAt(밀리초 정밀도)이며, HTTP에서는 ETag `"<epoch ms>"` 형식으로 주고받음
+ * 클라이언트는 If-Match 헤더 또는 expectedUpdatedAt(ISO 8601)으로 자신이 본 버전을 전달함
+ */
+
+/**
+ * updatedAt을 ETag 헤더 값으로 변환함
+ *
+ * @example
+ * toETag(new Date('2024-12-20T01:22:08.000Z')) // '"1734657728000"'
+ */
+export function toETag(updatedAt: Date): string {
+  return `"${updatedAt.getTime()}"`;
+}
+
+/**
+ * If-Match 헤더 값을 updatedAt으로 변환함
+ *
+ * @remarks
+ * 약한 비교 접두어(W/)는 무시하며, `*`는 "존재하기만 하면 됨"을 의미하므로 undefined를 반환함
+ *
+ * @param ifMatch - If-Match 헤더 값
+ *
+ * @returns 기대하는 updatedAt, 조건이 없으면 undefined, 형식이 올바르지 않으면 null
+ */
+export function parseIfMatch(
+  ifMatch: string | undefined,
+): Date | undefined | null {
+  if (ifMatch === undefined || ifMatch.trim() === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch.trim());
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * expectedUpdatedAt 값을 updatedAt으로 변환함
+ *
+ * @param value - ISO 8601 날짜/시간 문자열
+ *
+ * @returns 기대하는 updatedAt, 값이 없으면 undefined, 형식이 올바르지 않으면 null
+ */
+export function parseExpectedUpdatedAt(
+  value: string | undefined,
+): Date | undefined | null {
+  if (value === undefined) return undefined;
+
+  const isoDateTime =
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+  if (!isoDateTime.test(value) || isNaN(Date.parse(value))) {
+    return null;
+  }
+  return new Date(value);
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Trash2, X } from 'lucide-react';
+import { BulkDeletePreview, BulkDeleteResult } from '@/types/user';
+import { bulkDeleteUsers, previewBulkDeleteUsers } from '@/lib/api/users';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogFooter,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogCancel,
+  AlertDialogAction,
+} from '@/components/ui/alert-dialog';
+
+interface BulkActionBarProps {
+  // 체크박스로 선택한 유저 ID (비어 있으면 바를 숨김)
+  selectedUserIds: Set<string>;
+  onClearSelection: () => void;
+  // 일괄 삭제가 끝난 뒤 호출 (선택 해제, 목록 새로고침 등)
+  onDeleted: (result: BulkDeleteResult) => void;
+}
+
+/**
+ * 선택한 유저에 대한 일괄 작업 바
+ *
+ * 삭제는 먼저 dryRun으로 실제 삭제될 유저 수와 일부 목록을 보여준 뒤 확인을 받아 실행함
+ */
+export function BulkActionBar({ selectedUserIds, onClearSelection, onDeleted }: BulkActionBarProps) {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<BulkDeletePreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  if (selectedUserIds.size === 0) {
+    return null;
+  }
+
+  const selection = { userIds: Array.from(selectedUserIds) };
+
+  function showError(title: string, err: unknown) {
+    console.error(title, err);
+    toast({ variant: 'destructive', title, description: 'Please try again later.' });
+  }
+
+  async function handlePreviewDelete() {
+    try {
+      setIsWorking(true);
+      setPreview(await previewBulkDeleteUsers(selection));
+    } catch (err) {
+      showError('Failed to preview bulk delete', err);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleConfirmDelete() {
+    setPreview(null);
+    try {
+      setIsWorking(true);
+      const result = await bulkDeleteUsers(selection);
+      toast({
+        title: 'Users deleted',
+        description: `${result.deletedCount.toLocaleString()} users have been moved to the trash.`,
+      });
+      onDeleted(result);
+    } catch (err) {
+      showError('Failed to delete users', err);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-3 py-2 bg-[#1F1F1F] border border-[#2E2E2E] rounded-md">
+        <span className="text-xs text-white/70">
+          {selectedUserIds.size.toLocaleString()}명 선택됨
+        </span>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onClearSelection}
+            disabled={isWorking}
+            className="text-white/70 hover:text-white hover:bg-[#2E2E2E]"
+          >
+            <X className="w-4 h-4" />
+            선택 해제
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={handlePreviewDelete}
+            disabled={isWorking}
+            className="bg-red-500/20 text-red-500 hover:bg-red-500/30"
+          >
+            {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            선택 삭제
+          </Button>
+        </div>
+      </div>
+
+      {/* dryRun 결과를 보여주고 실제 삭제 여부를 확인 */}
+      <AlertDialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <AlertDialogContent className="bg-[#1F1F1F] border border-[#2E2E2E]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">
+              유저 {preview?.affectedCount.toLocaleString()}명을 삭제하시겠습니까?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-white/70">
+              선택한 유저는 휴지통으로 이동하며, 보관 기간 안에는 복원할 수 있습니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {preview && preview.sample.length > 0 && (
+            <ul className="text-xs text-white/80 space-y-1">
+              {preview.sample.map((user) => (
+                <li key={user.userId} className="flex justify-between">
+                  <span>{user.nickname} ({user.userId})</span>
+                  <span className="text-white/50">Lv. {user.level}</span>
+                </li>
+              ))}
+              {preview.affectedCount > preview.sample.length && (
+                <li className="text-white/50">
+                  외 {(preview.affectedCount - preview.sample.length).toLocaleString()}명
+                </li>
+              )}
+            </ul>
+          )}
+
+          {preview?.notFoundUserIds && preview.notFoundUserIds.length > 0 && (
+            <p className="text-xs text-yellow-400">
+              {preview.notFoundUserIds.length}명은 이미 삭제되었거나 존재하지 않아 제외됩니다.
+            </p>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel asChild>
+              <Button variant="outline" className="border-[#2E2E2E] text-white/70 bg-[#2E2E2E] hover:bg-[#2E2E2E] hover:text-white">취소</Button>
+            </AlertDialogCancel>
+            <AlertDialogAction asChild onClick={handleConfirmDelete}>
+              <Button
+                variant="destructive"
+                disabled={preview?.affectedCount === 0}
+                className="bg-red-500/20 text-red-500 hover:bg-red-500/30"
+              >
+                네, 삭제
+              </Button>
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
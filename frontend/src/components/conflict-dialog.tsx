@@ -0,0 +1,113 @@
+'use client';
+
+import { User } from '@/types/user';
+import { formatInteger } from '@/lib/utils';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogFooter,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogCancel,
+  AlertDialogAction,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+
+interface ConflictDialogProps {
+  // 충돌한 작업 (수정 또는 삭제)
+  action: 'update' | 'delete';
+  // 서버의 현재 레코드 (null이면 닫힘)
+  current: User | null;
+  // 작업 전에 보고 있던(수정이면 저장하려던) 값
+  attempted: Partial<Record<keyof User, unknown>>;
+  // 현재 레코드를 기준으로 작업을 다시 수행
+  onOverwrite: () => void;
+  // 작업을 취소하고 현재 레코드를 불러옴
+  onReload: () => void;
+}
+
+const fields: { key: keyof User; label: string }[] = [
+  { key: 'nickname', label: 'Nickname' },
+  { key: 'level', label: 'Level' },
+  { key: 'exp', label: 'EXP' },
+  { key: 'job', label: 'Job' },
+  { key: 'jobCode', label: 'Job Code' },
+  { key: 'meso', label: 'Meso' },
+  { key: 'playTime', label: 'Play Time' },
+  { key: 'updatedAt', label: 'Updated At' },
+];
+
+function formatValue(key: keyof User, value: unknown) {
+  if (value === null || value === undefined || value === '') return '-';
+  if (key === 'updatedAt') return new Date(value as string).toLocaleString();
+  if (key === 'meso' || key === 'exp') return formatInteger(value as string);
+  return typeof value === 'number' ? value.toLocaleString() : String(value);
+}
+
+/**
+ * 낙관적 동시성 충돌 시 현재 값과 내 값을 비교해 보여주고
+ * 덮어쓸지 최신 값을 불러올지 선택하게 하는 다이얼로그
+ */
+export function ConflictDialog({ action, current, attempted, onOverwrite, onReload }: ConflictDialogProps) {
+  const attemptedLabel = action === 'update' ? '저장하려던 값' : '삭제 전에 본 값';
+
+  return (
+    // 열림 상태는 current로만 제어하고, 닫는 동작은 두 버튼(과 Esc = 최신 값 불러오기)으로 처리
+    <AlertDialog open={current !== null}>
+      <AlertDialogContent className="bg-[#1F1F1F] border border-[#2E2E2E] max-w-2xl" onEscapeKeyDown={onReload}>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-white">
+            다른 곳에서 유저({current?.userId})가 변경되었습니다
+          </AlertDialogTitle>
+          <AlertDialogDescription className="text-white/70">
+            {action === 'update'
+              ? '불러온 이후 값이 바뀌었습니다. 내 값으로 덮어쓰거나 최신 값을 불러오세요.'
+              : '불러온 이후 값이 바뀌었습니다. 최신 값을 확인한 뒤 삭제하세요.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {current && (
+          <table className="w-full text-xs text-white/80">
+            <thead>
+              <tr className="border-b border-[#2E2E2E] text-white/50">
+                <th className="py-1.5 text-left font-medium">필드</th>
+                <th className="py-1.5 text-left font-medium">현재 값</th>
+                <th className="py-1.5 text-left font-medium">{attemptedLabel}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields
+                .filter(({ key }) => key in attempted)
+                .map(({ key, label }) => {
+                  const currentValue = formatValue(key, current[key]);
+                  const attemptedValue = formatValue(key, attempted[key]);
+                  const isChanged = currentValue !== attemptedValue;
+                  return (
+                    <tr key={key} className="border-b border-[#2E2E2E] last:border-b-0">
+                      <td className="py-1.5 text-white/50">{label}</td>
+                      <td className={`py-1.5 ${isChanged ? 'text-yellow-400' : ''}`}>{currentValue}</td>
+                      <td className="py-1.5">{attemptedValue}</td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel asChild onClick={onReload}>
+            <Button variant="outline" className="border-[#2E2E2E] text-white/70 bg-[#2E2E2E] hover:bg-[#2E2E2E] hover:text-white">
+              최신 값 불러오기
+            </Button>
+          </AlertDialogCancel>
+          <AlertDialogAction asChild onClick={onOverwrite}>
+            <Button variant="destructive" className="bg-red-500/20 text-red-500 hover:bg-red-500/30">
+              {action === 'update' ? '내 값으로 덮어쓰기' : '그래도 삭제'}
+            </Button>
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,15 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
-import { User } from '@/types/user';
-
-interface Column {
-  key: keyof User | 'action';
-  label: string;
-  sortable?: boolean;
-  width?: string;
-}
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import { Column, RankingSortBy, SortOrder, User } from '@/types/user';
+import { Checkbox } from '@/components/ui/checkbox';
+import { formatInteger } from '@/lib/utils';
 
 interface DataTableProps {
   columns: Column[];
@@ -19,11 +14,17 @@ interface DataTableProps {
   pageSize: number;
   onPageChange: (page: number) => void;
   onPageSizeChange?: (size: number) => void;
-  isSearching?: boolean;
   onDeleteUser?: (userId: string) => void;
+  onRowClick?: (user: User) => void;
+  sortBy?: RankingSortBy;
+  order?: SortOrder;
+  onSort?: (sortBy: RankingSortBy) => void;
+  // 일괄 작업용 행 선택 (onSelectionChange가 있을 때만 체크박스 열 표시)
+  selectedUserIds?: Set<string>;
+  onSelectionChange?: (userIds: Set<string>) => void;
 }
 
-const defaultColumnWidths: Record<keyof User | 'action' | 'rank', string> = {
+const defaultColumnWidths: Partial<Record<keyof User | 'action' | 'rank', string>> = {
   rank: 'w-[80px]',
   action: 'w-[80px]',
   userId: 'w-[160px]',
@@ -42,22 +43,37 @@ function TableHeader({
   column,
   onSort,
   width,
+  sortBy,
+  order,
 }: {
   column: Column;
-  onSort: (key: keyof User | 'action') => void;
+  onSort?: (sortBy: RankingSortBy) => void;
   width: string;
+  sortBy?: RankingSortBy;
+  order?: SortOrder;
 }) {
+  const isSortable = Boolean(column.sortable && column.sortKey && onSort);
+  const isActive = isSortable && column.sortKey === sortBy;
+
   return (
     <th
-      className={`px-3 py-[6px] text-left bg-[#212121] border-r border-[#2E2E2E] last:border-r-0 ${width}`}
+      className={`px-3 py-[6px] text-left bg-[#212121] border-r border-[#2E2E2E] last:border-r-0 ${width} ${
+        isSortable ? 'cursor-pointer select-none hover:bg-[#2A2A2A]' : ''
+      }`}
       onClick={() => {
-        if (column.sortable && column.key !== 'action') {
-          onSort(column.key);
+        if (isSortable && column.sortKey) {
+          onSort?.(column.sortKey);
         }
       }}
     >
       <div className="flex items-center gap-1 text-white text-[12px] font-bold tracking-wide">
         <span>{column.label}</span>
+        {isActive &&
+          (order === 'asc' ? (
+            <ArrowUp className="h-3 w-3 text-white/70" />
+          ) : (
+            <ArrowDown className="h-3 w-3 text-white/70" />
+          ))}
       </div>
     </th>
   );
@@ -68,11 +84,13 @@ function TableCell({
   column,
   width,
   onDelete,
+  formerNickname,
 }: {
-  value: string | number | Date;
+  value: string | number | Date | null;
   column: Column;
   width: string;
   onDelete?: () => void;
+  formerNickname?: string | null;
 }) {
   if (column.key === 'action') {
     return (
@@ -92,10 +110,22 @@ function TableCell({
     );
   }
 
+  // 이전 닉네임으로 검색된 유저는 현재 닉네임 아래에 이전 닉네임을 함께 표시
+  if (column.key === 'nickname' && formerNickname) {
+    return (
+      <td
+        className={`px-3 py-[6px] text-[12px] font-normal text-white border-r border-[#242424] last:border-r-0 ${width}`}
+      >
+        <p className="truncate">{String(value)}</p>
+        <p className="truncate text-[11px] text-white/50">formerly known as {formerNickname}</p>
+      </td>
+    );
+  }
+
   const formattedValue = column.key.toString().includes('At')
-    ? new Date(value).toLocaleString()
+    ? new Date(value as string).toLocaleString()
     : column.key === 'meso' || column.key === 'exp' || column.key === 'playTime'
-    ? (value as number).toLocaleString()
+    ? formatInteger(value as string | number | null) ?? ''
     : String(value);
 
   return (
@@ -194,12 +224,37 @@ export default function DataTable({
   currentPage,
   pageSize,
   onPageChange,
-  isSearching = false,
   onDeleteUser,
+  onRowClick,
+  sortBy,
+  order,
+  onSort,
+  selectedUserIds = new Set(),
+  onSelectionChange,
 }: DataTableProps) {
   const totalPages = Math.ceil(totalCount / pageSize);
+  const isSelectable = Boolean(onSelectionChange);
 
-  const getRankNumber = (index: number) => (currentPage - 1) * pageSize + index + 1;
+  // 헤더 체크박스는 현재 페이지의 행만 선택/해제함 (다른 페이지의 선택은 유지)
+  const selectedOnPage = data.filter((row) => selectedUserIds.has(row.userId)).length;
+  const pageSelectState =
+    selectedOnPage === 0 ? false : selectedOnPage === data.length ? true : 'indeterminate';
+
+  function togglePage(checked: boolean) {
+    const next = new Set(selectedUserIds);
+    data.forEach((row) => (checked ? next.add(row.userId) : next.delete(row.userId)));
+    onSelectionChange?.(next);
+  }
+
+  function toggleRow(userId: string, checked: boolean) {
+    const next = new Set(selectedUserIds);
+    if (checked) {
+      next.add(userId);
+    } else {
+      next.delete(userId);
+    }
+    onSelectionChange?.(next);
+  }
 
   return (
     <div className="overflow-hidden bg-[#141414] border border-[#242424]">
@@ -207,28 +262,39 @@ export default function DataTable({
         <table className="w-full table-fixed border-collapse">
           <thead>
             <tr className="border-[0.5px] border-[#242424]">
+              {isSelectable && (
+                <th className="px-3 py-[6px] bg-[#212121] border-r border-[#2E2E2E] w-[40px]">
+                  <div className="flex justify-center">
+                    <Checkbox
+                      checked={data.length > 0 && pageSelectState}
+                      disabled={data.length === 0}
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      aria-label="Select all rows on this page"
+                      className="border-white/40"
+                    />
+                  </div>
+                </th>
+              )}
               <th className="px-3 py-[6px] text-left bg-[#212121] border-r border-[#2E2E2E] w-[80px]">
                 <div className="flex items-center gap-1 text-white text-[12px] font-bold tracking-wide">
                   <span>삭제</span>
                 </div>
               </th>
-              {!isSearching && (
-                <th className="px-3 py-[6px] text-left bg-[#212121] border-r border-[#2E2E2E] w-[80px]">
-                  <div className="flex items-center gap-1 text-white text-[12px] font-bold tracking-wide">
-                    <span>순위</span>
-                  </div>
-                </th>
-              )}
+              <th className="px-3 py-[6px] text-left bg-[#212121] border-r border-[#2E2E2E] w-[80px]">
+                <div className="flex items-center gap-1 text-white text-[12px] font-bold tracking-wide">
+                  <span>순위</span>
+                </div>
+              </th>
               {columns.filter(col => col.key !== 'action').map((column) => {
                 const width = column.width || defaultColumnWidths[column.key] || 'w-[120px]';
                 return (
                   <TableHeader
                     key={column.key}
                     column={column}
-                    onSort={() => {
-                      /* Implement sorting logic if desired */
-                    }}
+                    onSort={onSort}
                     width={width}
+                    sortBy={sortBy}
+                    order={order}
                   />
                 );
               })}
@@ -239,12 +305,35 @@ export default function DataTable({
               data.map((row, idx) => (
                 <tr
                   key={row.userId + '-' + idx}
-                  className="border-b border-[#242424] hover:bg-neutral-800/20 transition-all duration-150"
+                  className={`border-b border-[#242424] hover:bg-neutral-800/20 transition-all duration-150 ${
+                    onRowClick ? 'cursor-pointer' : ''
+                  }`}
+                  onClick={() => onRowClick?.(row)}
                 >
+                  {isSelectable && (
+                    // 체크박스 클릭이 행 클릭(상세 열기)으로 이어지지 않도록 함
+                    <td
+                      className="px-3 py-[6px] border-r border-[#242424] w-[40px]"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <div className="flex justify-center">
+                        <Checkbox
+                          checked={selectedUserIds.has(row.userId)}
+                          onCheckedChange={(checked) => toggleRow(row.userId, checked === true)}
+                          aria-label={`Select ${row.userId}`}
+                          className="border-white/40"
+                        />
+                      </div>
+                    </td>
+                  )}
                   <td className="px-3 py-[6px] text-[12px] font-normal text-white border-r border-[#242424] w-[80px]">
                     <div className="flex justify-center">
                       <button
-                        onClick={() => onDeleteUser?.(row.userId)}
+                        onClick={(e) => {
+                          // 삭제 버튼 클릭이 행 클릭(상세 열기)으로 이어지지 않도록 함
+                          e.stopPropagation();
+                          onDeleteUser?.(row.userId);
+                        }}
                         className="text-red-500 hover:text-red-400 transition-colors inline-flex items-center"
                         title="Delete user"
                       >
@@ -252,19 +341,18 @@ export default function DataTable({
                       </button>
                     </div>
                   </td>
-                  {!isSearching && (
-                    <td className="px-3 py-[6px] text-[12px] font-normal text-white truncate border-r border-[#242424] w-[80px]">
-                      {getRankNumber(idx)}
-                    </td>
-                  )}
+                  <td className="px-3 py-[6px] text-[12px] font-normal text-white truncate border-r border-[#242424] w-[80px]">
+                    {row.rank ?? '-'}
+                  </td>
                   {columns.filter(col => col.key !== 'action').map((column) => {
                     const width = column.width || defaultColumnWidths[column.key] || 'w-[120px]';
                     return (
                       <TableCell
                         key={column.key}
-                        value={row[column.key as keyof User]}
+                        value={row[column.key as Exclude<keyof User, 'rank' | 'formerNickname' | 'requiredExp' | 'expPercent'>]}
                         column={column}
                         width={width}
+                        formerNickname={row.formerNickname}
                       />
                     );
                   })}
@@ -273,7 +361,7 @@ export default function DataTable({
             ) : (
               <tr>
                 <td
-                  colSpan={isSearching ? columns.length : columns.length + 1}
+                  colSpan={columns.length + (isSelectable ? 2 : 1)}
                   className="text-center py-1.5"
                 >
                   <p className="text-[12px] font-normal text-white">
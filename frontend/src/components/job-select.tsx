@@ -0,0 +1,51 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { JobSummary } from '@/types/user';
+
+const ALL_JOBS = 'all';
+
+interface JobSelectProps {
+  jobs: JobSummary[];
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function JobSelect({ jobs, value, onChange, disabled }: JobSelectProps) {
+  return (
+    <Select
+      value={value || ALL_JOBS}
+      onValueChange={(next) => onChange(next === ALL_JOBS ? '' : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger
+        className="w-[180px] h-9 bg-white/[0.04] text-sm text-white/90 border-0 rounded-lg
+          ring-1 ring-white/[0.06] hover:ring-white/[0.08]
+          focus:ring-2 focus:ring-blue-500/30"
+      >
+        <SelectValue placeholder="전체 직업" />
+      </SelectTrigger>
+      <SelectContent className="bg-[#1F1F1F] border border-[#2E2E2E] text-white">
+        <SelectItem value={ALL_JOBS} className="text-sm focus:bg-white/10 focus:text-white">
+          전체 직업
+        </SelectItem>
+        {jobs.map((job) => (
+          <SelectItem
+            key={job.job}
+            value={job.job}
+            className="text-sm focus:bg-white/10 focus:text-white"
+          >
+            {job.job} ({job.playerCount.toLocaleString()})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
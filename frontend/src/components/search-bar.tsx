@@ -1,29 +1,62 @@
 'use client';
 
 import { Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QueryError } from '@/types/user';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
+  error?: QueryError | null;
 }
 
-export function SearchBar({ value, onChange }: SearchBarProps) {
+export function SearchBar({ value, onChange, error }: SearchBarProps) {
   return (
-    <div className="relative">
-      <div className="absolute inset-y-0 left-2.5 flex items-center pointer-events-none">
-        <Search className="h-3.5 w-3.5 text-white/40" />
+    <div className="space-y-1.5">
+      <div className="relative">
+        <div className="absolute inset-y-0 left-2.5 flex items-center pointer-events-none">
+          <Search className="h-3.5 w-3.5 text-white/40" />
+        </div>
+        <input
+          type="text"
+          className={cn(
+            `w-full h-9 bg-white/[0.04] text-sm text-white/90 
+            placeholder:text-white/30 pl-9 pr-4 rounded-lg
+            ring-1 ring-white/[0.06] hover:ring-white/[0.08]
+            focus:ring-2 focus:ring-blue-500/30 focus:outline-none
+            transition-all duration-200`,
+            error && 'ring-red-500/40 hover:ring-red-500/50 focus:ring-red-500/40'
+          )}
+          placeholder="Search users... (e.g. level:>200 job:히어로 -nick:foo)"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-invalid={Boolean(error)}
+        />
       </div>
-      <input
-        type="text"
-        className="w-full h-9 bg-white/[0.04] text-sm text-white/90 
-          placeholder:text-white/30 pl-9 pr-4 rounded-lg
-          ring-1 ring-white/[0.06] hover:ring-white/[0.08]
-          focus:ring-2 focus:ring-blue-500/30 focus:outline-none
-          transition-all duration-200"
-        placeholder="Search users... (minimum 2 characters)"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-      />
+      {error && <QueryErrorHint query={value} error={error} />}
     </div>
   );
-} 
\ No newline at end of file
+}
+
+// 질의어에서 문제가 된 부분을 강조하고 에러 메시지를 표시
+function QueryErrorHint({ query, error }: { query: string; error: QueryError }) {
+  const hasPosition = error.position !== undefined && error.position <= query.length;
+  const start = error.position ?? 0;
+  // 길이가 없거나 0이면 해당 위치의 한 글자(입력 끝이면 빈 칸)를 강조
+  const end = Math.min(query.length, start + Math.max(error.length ?? 1, 1));
+
+  return (
+    <div className="px-1 text-xs">
+      {hasPosition && (
+        <p className="font-mono text-white/60 whitespace-pre-wrap break-all">
+          {query.slice(0, start)}
+          <mark className="bg-red-500/25 text-red-400 rounded-sm underline decoration-wavy decoration-red-500">
+            {query.slice(start, end) || ' '}
+          </mark>
+          {query.slice(end)}
+        </p>
+      )}
+      <p className="text-red-500">{error.message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createUser, fetchJobs, updateUser, UserConflictError } from '@/lib/api/users';
+import { ApiFieldError, getFieldErrors, parseApiError } from '@/lib/api/errors';
+import { Job, User, UserPayload } from '@/types/user';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ConflictDialog } from '@/components/conflict-dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+
+const MAX_INT = 2147483647;
+const MAX_BIGINT = BigInt('9223372036854775807');
+
+// 숫자 입력은 문자열로 받아 검증한 뒤 제출 시 숫자(빈 값은 null)로 변환
+const optionalInt = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || (/^\d+$/.test(value) && Number(value) <= MAX_INT), {
+    message: '0 이상의 정수를 입력하세요.',
+  });
+
+// meso, exp는 BIGINT 컬럼이라 정밀도를 잃지 않도록 BigInt로 범위를 검사하고 문자열 그대로 제출
+const optionalBigInt = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || (/^\d+$/.test(value) && BigInt(value) <= MAX_BIGINT), {
+    message: '0 이상의 정수를 입력하세요.',
+  });
+
+// 백엔드 CreateUserDto와 같은 규칙
+const userFormSchema = z.object({
+  userId: z
+    .string()
+    .trim()
+    .min(1, 'User ID를 입력하세요.')
+    .max(30, 'User ID는 30자 이하여야 합니다.')
+    .regex(/^[A-Za-z0-9_-]+$/, '영문, 숫자, _, -만 사용할 수 있습니다.'),
+  nickname: z
+    .string()
+    .trim()
+    .min(2, '닉네임은 2자 이상이어야 합니다.')
+    .max(16, '닉네임은 16자 이하여야 합니다.')
+    .regex(/^[A-Za-z0-9가-힣_]+$/, '한글, 영문, 숫자, _만 사용할 수 있습니다.'),
+  level: z
+    .string()
+    .trim()
+    .refine((value) => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= MAX_INT, {
+      message: '1 이상의 정수를 입력하세요.',
+    }),
+  job: z.string().trim().max(30, '직업은 30자 이하여야 합니다.'),
+  jobCode: optionalInt,
+  meso: optionalBigInt,
+  exp: optionalBigInt,
+  playTime: optionalInt,
+});
+
+type UserFormValues = z.infer<typeof userFormSchema>;
+
+interface UserFormProps {
+  // 수정할 유저 (없으면 새 유저 생성)
+  user?: User;
+  onSaved: (user: User) => void;
+  onCancel?: () => void;
+}
+
+const numberFields = [
+  { name: 'level', label: 'Level' },
+  { name: 'jobCode', label: 'Job Code' },
+  { name: 'meso', label: 'Meso' },
+  { name: 'exp', label: 'EXP' },
+  { name: 'playTime', label: 'Play Time' },
+] as const;
+
+function toInputValue(value: string | number | null | undefined) {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function toFormValues(user?: User): UserFormValues {
+  return {
+    userId: toInputValue(user?.userId),
+    nickname: toInputValue(user?.nickname),
+    level: toInputValue(user?.level),
+    job: toInputValue(user?.job),
+    jobCode: toInputValue(user?.jobCode),
+    meso: toInputValue(user?.meso),
+    exp: toInputValue(user?.exp),
+    playTime: toInputValue(user?.playTime),
+  };
+}
+
+// userId는 생성 요청에만 포함하므로 여기서는 제외
+function toPayload(values: UserFormValues): Omit<UserPayload, 'userId'> {
+  const toNumber = (value: string) => (value === '' ? null : Number(value));
+  // 앞의 0을 없애 백엔드가 돌려주는 값과 같은 형식으로 보냄
+  const toIntegerString = (value: string) => (value === '' ? null : BigInt(value).toString());
+  return {
+    nickname: values.nickname,
+    level: Number(values.level),
+    job: values.job === '' ? null : values.job,
+    jobCode: toNumber(values.jobCode),
+    meso: toIntegerString(values.meso),
+    exp: toIntegerString(values.exp),
+    playTime: toNumber(values.playTime),
+  };
+}
+
+export function UserForm({ user, onSaved, onCancel }: UserFormProps) {
+  const isEdit = Boolean(user);
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: toFormValues(user),
+  });
+
+  // 수정의 기준이 되는 버전 (충돌 후 최신 값을 불러오면 갱신됨)
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState(user?.updatedAt);
+  const [conflict, setConflict] = useState<User | null>(null);
+  // 직업 입력의 자동완성 목록 (불러오지 못해도 직접 입력은 가능)
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  useEffect(() => {
+    fetchJobs()
+      .then(setJobs)
+      .catch((err) => console.error('Failed to fetch jobs:', err));
+  }, []);
+
+  // 직업 목록의 직업을 고르면 Job Code를 그 직업의 코드로 채움
+  function handleJobChange(value: string) {
+    const job = jobs.find((item) => item.nameKo === value.trim());
+    if (job) {
+      form.setValue('jobCode', String(job.code), { shouldValidate: true });
+    }
+  }
+
+  async function onSubmit(values: UserFormValues, expectedUpdatedAt = baseUpdatedAt) {
+    const payload = toPayload(values);
+    try {
+      if (user) {
+        onSaved(await updateUser(user.userId, payload, expectedUpdatedAt));
+      } else {
+        onSaved(await createUser({ userId: values.userId, ...payload }));
+      }
+    } catch (err) {
+      if (err instanceof UserConflictError) {
+        setConflict(err.current);
+        return;
+      }
+      handleSubmitError(err);
+    }
+  }
+
+  // 충돌 확인 후 현재 버전을 기준으로 내 값을 다시 저장
+  async function handleOverwrite() {
+    if (!conflict) return;
+    const current = conflict;
+    setConflict(null);
+    setBaseUpdatedAt(current.updatedAt);
+    await onSubmit(form.getValues(), current.updatedAt);
+  }
+
+  // 내 수정 내용을 버리고 최신 값으로 폼을 다시 채움
+  function handleReload() {
+    if (!conflict) return;
+    form.reset(toFormValues(conflict));
+    setBaseUpdatedAt(conflict.updatedAt);
+    setConflict(null);
+  }
+
+  // 서버 검증 에러를 폼에 표시 (필드별 에러와 중복 userId는 해당 필드에, 나머지는 폼 하단에)
+  function handleSubmitError(err: unknown) {
+    console.error('Failed to save user:', err);
+    const apiError = parseApiError(err);
+    if (!apiError) {
+      form.setError('root', { message: 'Failed to save user. Please try again later.' });
+      return;
+    }
+
+    const fieldErrors = getFieldErrors(apiError).filter(
+      (fieldError): fieldError is ApiFieldError & { field: keyof UserFormValues } =>
+        fieldError.field in form.getValues()
+    );
+    if (fieldErrors.length > 0) {
+      fieldErrors.forEach(({ field, messages }) => form.setError(field, { message: messages[0] }));
+      return;
+    }
+
+    if (apiError.code === 'USER_ALREADY_EXISTS' || apiError.code === 'USER_IN_TRASH') {
+      form.setError('userId', { message: apiError.message });
+      return;
+    }
+    if (apiError.code === 'INVALID_JOB') {
+      form.setError('job', { message: apiError.message });
+      return;
+    }
+    form.setError('root', { message: apiError.message });
+  }
+
+  const inputClassName = 'bg-white/[0.04] border-[#2E2E2E] text-white/90 placeholder:text-white/30';
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => onSubmit(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="userId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white/70">User ID</FormLabel>
+              <FormControl>
+                <Input {...field} disabled={isEdit} className={inputClassName} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="nickname"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white/70">Nickname</FormLabel>
+              <FormControl>
+                <Input {...field} className={inputClassName} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="job"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white/70">Job</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  list="user-form-jobs"
+                  onChange={(event) => {
+                    field.onChange(event);
+                    handleJobChange(event.target.value);
+                  }}
+                  className={inputClassName}
+                />
+              </FormControl>
+              <datalist id="user-form-jobs">
+                {jobs.map((job) => (
+                  <option key={job.code} value={job.nameKo}>
+                    {job.nameEn}
+                  </option>
+                ))}
+              </datalist>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          {numberFields.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white/70">{label}</FormLabel>
+                  <FormControl>
+                    <Input {...field} inputMode="numeric" className={inputClassName} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        {form.formState.errors.root && (
+          <p className="text-sm text-red-500">{form.formState.errors.root.message}</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="border-[#2E2E2E] text-white/70 bg-[#2E2E2E] hover:bg-[#2E2E2E] hover:text-white"
+            >
+              취소
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isEdit ? '저장' : '추가'}
+          </Button>
+        </div>
+      </form>
+
+      <ConflictDialog
+        action="update"
+        current={conflict}
+        attempted={conflict ? { ...toPayload(form.getValues()), updatedAt: baseUpdatedAt } : {}}
+        onOverwrite={handleOverwrite}
+        onReload={handleReload}
+      />
+    </Form>
+  );
+}
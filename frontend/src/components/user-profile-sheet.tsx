@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Pencil } from 'lucide-react';
+import { fetchUserDetail } from '@/lib/api/users';
+import { formatInteger } from '@/lib/utils';
+import { User, UserDetail } from '@/types/user';
+import { UserForm } from '@/components/user-form';
+import { UserProgressChart } from '@/components/user-progress-chart';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+
+interface UserProfileSheetProps {
+  userId: string | null;
+  onOpenChange: (open: boolean) => void;
+  // 프로필에서 유저 정보를 수정한 뒤 호출 (목록 새로고침 등)
+  onUserUpdated?: (user: User) => void;
+}
+
+function ProfileField({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 py-2 border-b border-[#2E2E2E] last:border-b-0">
+      <dt className="text-xs text-white/50 shrink-0">{label}</dt>
+      <dd className="text-sm text-white/90 text-right break-all">{value ?? '-'}</dd>
+    </div>
+  );
+}
+
+/**
+ * 유저 상세 프로필 패널
+ * userId가 주어지면 열리면서 상세 정보(순위, 계정 나이 포함)와 진행 이력 그래프를 불러옴
+ */
+export function UserProfileSheet({ userId, onOpenChange, onUserUpdated }: UserProfileSheetProps) {
+  const [user, setUser] = useState<UserDetail | null>(null);
+  const [error, setError] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  // 수정 후 순위 등 파생 정보를 다시 불러오기 위한 키
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let ignore = false;
+    setUser(null);
+    setError('');
+    setIsEditing(false);
+    fetchUserDetail(userId)
+      .then((data) => {
+        if (!ignore) setUser(data);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch user detail:', err);
+        if (!ignore) setError('Failed to load user. Please try again later.');
+      });
+
+    // 다른 유저를 연달아 열면 이전 응답은 무시
+    return () => {
+      ignore = true;
+    };
+  }, [userId, reloadKey]);
+
+  function handleSaved(updated: User) {
+    setIsEditing(false);
+    setReloadKey((key) => key + 1);
+    onUserUpdated?.(updated);
+  }
+
+  return (
+    <Sheet open={userId !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-[#1F1F1F] border-l border-[#2E2E2E] text-white overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">{user?.nickname ?? userId}</SheetTitle>
+          <SheetDescription className="text-white/50">{userId}</SheetDescription>
+        </SheetHeader>
+
+        {error ? (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <p className="text-sm text-red-500">{error}</p>
+          </div>
+        ) : !user ? (
+          <div className="flex justify-center items-center h-[200px]">
+            <Loader2 className="h-6 w-6 text-white/50 animate-spin" />
+          </div>
+        ) : isEditing ? (
+          <div className="mt-6">
+            <UserForm
+              user={{ ...user, rank: user.globalRank }}
+              onSaved={handleSaved}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <div className="mt-6 space-y-6">
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsEditing(true)}
+                className="border-[#2E2E2E] text-white/70 bg-[#2E2E2E] hover:bg-[#2E2E2E] hover:text-white"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                수정
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="rounded-lg bg-white/[0.04] p-3">
+                <p className="text-xs text-white/50">전체 순위</p>
+                <p className="text-lg font-semibold">{user.globalRank.toLocaleString()}</p>
+              </div>
+              <div className="rounded-lg bg-white/[0.04] p-3">
+                <p className="text-xs text-white/50">직업 순위</p>
+                <p className="text-lg font-semibold">{user.jobRank?.toLocaleString() ?? '-'}</p>
+              </div>
+              <div className="rounded-lg bg-white/[0.04] p-3">
+                <p className="text-xs text-white/50">계정 나이</p>
+                <p className="text-lg font-semibold">{user.accountAgeDays.toLocaleString()}일</p>
+              </div>
+            </div>
+
+            <dl>
+              <ProfileField label="User ID" value={user.userId} />
+              <ProfileField label="Nickname" value={user.nickname} />
+              <ProfileField label="Level" value={user.level} />
+              <ProfileField label="EXP" value={formatInteger(user.exp)} />
+              <ProfileField
+                label="Next Level"
+                value={
+                  user.expPercent != null && (
+                    <span className={user.expPercent >= 100 ? 'text-red-400' : undefined}>
+                      {user.expPercent}% of {formatInteger(user.requiredExp)}
+                    </span>
+                  )
+                }
+              />
+              <ProfileField label="Job" value={user.job} />
+              <ProfileField label="Job Code" value={user.jobCode} />
+              <ProfileField label="Meso" value={formatInteger(user.meso)} />
+              <ProfileField label="Play Time" value={user.playTime?.toLocaleString()} />
+              <ProfileField label="Created At" value={new Date(user.createdAt).toLocaleString()} />
+              <ProfileField label="Updated At" value={new Date(user.updatedAt).toLocaleString()} />
+            </dl>
+
+            <UserProgressChart userId={user.userId} reloadKey={reloadKey} />
+
+            {user.formerNicknames.length > 0 && (
+              <div>
+                <p className="text-xs text-white/50 mb-2">이전 닉네임</p>
+                <ul className="space-y-1">
+                  {user.formerNicknames.map((former) => (
+                    <li key={former.changedAt} className="flex justify-between text-sm">
+                      <span>{former.nickname}</span>
+                      <span className="text-xs text-white/50">
+                        {new Date(former.changedAt).toLocaleDateString()}까지
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { fetchUserProgress } from '@/lib/api/users';
+import { UserProgressPoint } from '@/types/user';
+import { Button } from '@/components/ui/button';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+type ProgressMetric = 'level' | 'exp' | 'meso' | 'playTime';
+
+const chartConfig = {
+  level: { label: 'Level', color: '#60A5FA' },
+  exp: { label: 'EXP', color: '#34D399' },
+  meso: { label: 'Meso', color: '#FBBF24' },
+  playTime: { label: 'Play Time', color: '#F472B6' },
+} satisfies ChartConfig;
+
+const metrics = Object.keys(chartConfig) as ProgressMetric[];
+
+interface UserProgressChartProps {
+  userId: string;
+  // 값이 바뀌면 이력을 다시 불러옴 (프로필에서 수정한 직후 등)
+  reloadKey?: number;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString();
+}
+
+/**
+ * 유저의 레벨, 경험치, 메소, 플레이 타임 변화 그래프
+ * 선택한 항목 하나를 기록 시각 순서대로 선 그래프로 표시함
+ */
+export function UserProgressChart({ userId, reloadKey }: UserProgressChartProps) {
+  const [points, setPoints] = useState<UserProgressPoint[] | null>(null);
+  const [error, setError] = useState('');
+  const [metric, setMetric] = useState<ProgressMetric>('level');
+
+  useEffect(() => {
+    let ignore = false;
+    setPoints(null);
+    setError('');
+    fetchUserProgress(userId)
+      .then((data) => {
+        if (!ignore) setPoints(data.points);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch user progress:', err);
+        if (!ignore) setError('Failed to load progress history.');
+      });
+
+    return () => {
+      ignore = true;
+    };
+  }, [userId, reloadKey]);
+
+  // 그래프 축은 숫자여야 하므로 문자열로 오는 exp, meso를 숫자로 변환 (2^53을 넘으면 근사값으로 표시)
+  const chartData = points?.map((point) => ({
+    ...point,
+    exp: point.exp === null ? null : Number(point.exp),
+    meso: point.meso === null ? null : Number(point.meso),
+  }));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-white/50">진행 이력</p>
+        <div className="flex gap-1">
+          {metrics.map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant="ghost"
+              onClick={() => setMetric(key)}
+              className={`h-7 px-2 text-xs hover:bg-[#2E2E2E] hover:text-white ${
+                metric === key ? 'bg-[#2E2E2E] text-white' : 'text-white/50'
+              }`}
+            >
+              {chartConfig[key].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-500">{error}</p>
+      ) : !points ? (
+        <div className="flex justify-center items-center h-[160px]">
+          <Loader2 className="h-5 w-5 text-white/50 animate-spin" />
+        </div>
+      ) : points.length === 0 ? (
+        <p className="text-xs text-white/50">기록된 진행 이력이 없습니다.</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-[200px] w-full">
+          <LineChart data={chartData} margin={{ left: 4, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} stroke="#2E2E2E" />
+            <XAxis
+              dataKey="recordedAt"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={24}
+              tickFormatter={formatDate}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value: number) => value.toLocaleString()}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) =>
+                    payload[0] && new Date(payload[0].payload.recordedAt).toLocaleString()
+                  }
+                />
+              }
+            />
+            <Line
+              dataKey={metric}
+              type="stepAfter"
+              stroke={`var(--color-${metric})`}
+              strokeWidth={2}
+              dot={points.length === 1}
+              connectNulls
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
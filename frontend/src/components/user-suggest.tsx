@@ -0,0 +1,106 @@
+'use client';
+
+import { ReactNode, useEffect, useState } from 'react';
+import { suggestUsers } from '@/lib/api/users';
+import { UserSuggestion } from '@/types/user';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+
+interface UserSuggestProps {
+  query: string;
+  onSelect: (suggestion: UserSuggestion) => void;
+  children: ReactNode;
+}
+
+// 입력이 멈춘 뒤 요청을 보낼 때까지의 대기 시간(ms)
+const SUGGEST_DEBOUNCE_MS = 150;
+
+// 필드 조건, 부정, 따옴표가 없는 단순 검색어일 때만 자동완성
+function isSuggestable(query: string) {
+  const trimmed = query.trim();
+  return trimmed.length > 0 && trimmed.length <= 30 && !/[:"]|^-/.test(trimmed);
+}
+
+/**
+ * 검색창 아래에 userId/닉네임 자동완성 목록을 표시
+ * 검색창(children)을 Command로 감싸 방향키와 Enter로 항목을 고를 수 있음
+ */
+export function UserSuggest({ query, onSelect, children }: UserSuggestProps) {
+  const [suggestions, setSuggestions] = useState<UserSuggestion[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  useEffect(() => {
+    setIsDismissed(false);
+    if (!isSuggestable(query)) {
+      setSuggestions([]);
+      return;
+    }
+
+    // 입력이 바뀌면 이전 요청은 취소
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      suggestUsers(query.trim(), controller.signal)
+        .then((data) => setSuggestions(data.suggestions))
+        .catch((err) => {
+          if (!controller.signal.aborted) {
+            console.error('Failed to fetch suggestions:', err);
+            setSuggestions([]);
+          }
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const isOpen = isFocused && !isDismissed && suggestions.length > 0;
+
+  function handleSelect(suggestion: UserSuggestion) {
+    setIsDismissed(true);
+    onSelect(suggestion);
+  }
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className="relative overflow-visible bg-transparent"
+      onFocus={() => setIsFocused(true)}
+      onBlur={() => setIsFocused(false)}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsDismissed(true);
+      }}
+    >
+      {children}
+      {isOpen && (
+        <CommandList
+          className="absolute top-full left-0 right-0 z-50 mt-1 rounded-lg border border-[#2E2E2E] bg-[#212121] shadow-lg"
+          // 항목 클릭 시 검색창 blur로 목록이 먼저 닫히지 않도록 함
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandGroup>
+            {suggestions.map((suggestion) => (
+              <CommandItem
+                key={suggestion.userId}
+                value={suggestion.userId}
+                onSelect={() => handleSelect(suggestion)}
+                className="flex items-center justify-between text-white/80 data-[selected=true]:bg-white/[0.06] data-[selected=true]:text-white"
+              >
+                <span className="truncate">
+                  <span className="font-medium">{suggestion.nickname}</span>
+                  <span className="ml-2 text-xs text-white/40">{suggestion.userId}</span>
+                </span>
+                <span className="shrink-0 text-xs text-white/50">
+                  Lv.{suggestion.level}
+                  {suggestion.job && ` · ${suggestion.job}`}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      )}
+    </Command>
+  );
+}
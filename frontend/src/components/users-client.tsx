@@ -1,14 +1,22 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Loader2 } from 'lucide-react';
 import { SearchBar } from '@/components/search-bar';
+import { JobSelect } from '@/components/job-select';
+import { UserSuggest } from '@/components/user-suggest';
+import { UserProfileSheet } from '@/components/user-profile-sheet';
+import { UserForm } from '@/components/user-form';
+import { ConflictDialog } from '@/components/conflict-dialog';
+import { BulkActionBar } from '@/components/bulk-action-bar';
 import DataTable from '@/components/data-table';
-import { fetchUsers, searchUsers, deleteUser } from '@/lib/api/users';
-import { Column, User } from '@/types/user';
+import { fetchUsers, searchUsers, deleteUser, restoreUser, fetchJobSummary, getQueryError, UserConflictError } from '@/lib/api/users';
+import { Column, JobSummary, QueryError, RankingSortBy, SortOrder, User, UserSuggestion } from '@/types/user';
 
 /* shadcn/ui imports */
 import { useToast  } from "@/hooks/use-toast";
+import { ToastAction } from '@/components/ui/toast';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   AlertDialog,
   AlertDialogContent,
@@ -19,20 +27,29 @@ import {
   AlertDialogCancel,
   AlertDialogAction,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 
+// 검색어 입력이 멈춘 뒤 검색 요청을 보낼 때까지의 대기 시간(ms)
+const SEARCH_DEBOUNCE_MS = 300;
+
 const columns: Column[] = [
   { key: 'action', label: '삭제', width: 'w-[60px]' },
-  { key: 'userId', label: 'User ID', sortable: true },
-  { key: 'level', label: 'Level', sortable: true },
-  { key: 'exp', label: 'EXP', sortable: true },
-  { key: 'nickname', label: 'Nickname', sortable: true },
-  { key: 'job', label: 'Job', sortable: true },
-  { key: 'jobCode', label: 'Job Code', sortable: true },
-  { key: 'meso', label: 'Meso', sortable: true },
-  { key: 'playTime', label: 'Play Time', sortable: true },
-  { key: 'createdAt', label: 'Created At', sortable: true },
-  { key: 'updatedAt', label: 'Updated At', sortable: true }
+  { key: 'userId', label: 'User ID' },
+  { key: 'level', label: 'Level', sortable: true, sortKey: 'level' },
+  { key: 'exp', label: 'EXP', sortable: true, sortKey: 'level' },
+  { key: 'nickname', label: 'Nickname' },
+  { key: 'job', label: 'Job' },
+  { key: 'jobCode', label: 'Job Code' },
+  { key: 'meso', label: 'Meso', sortable: true, sortKey: 'meso' },
+  { key: 'playTime', label: 'Play Time', sortable: true, sortKey: 'playTime' },
+  { key: 'createdAt', label: 'Created At' },
+  { key: 'updatedAt', label: 'Updated At' }
 ];
 
 export default function UsersClient() {
@@ -40,55 +57,180 @@ export default function UsersClient() {
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedJob, setSelectedJob] = useState('');
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [sortBy, setSortBy] = useState<RankingSortBy>('level');
+  const [order, setOrder] = useState<SortOrder>('desc');
   const [error, setError] = useState('');
+  const [queryError, setQueryError] = useState<QueryError | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const pageSize = 100;
 
+  // 프로필 패널에 표시할 유저
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
   // AlertDialog 제어
   const [open, setOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<string | null>(null);
 
+  // 검색 시 이전 닉네임도 함께 검색할지 여부
+  const [includeFormerNicknames, setIncludeFormerNicknames] = useState(false);
+
+  // 일괄 작업용으로 선택한 유저 (페이지를 넘겨도 유지)
+  const [selectedUserIds, setSelectedUserIds] = useState<Set<string>>(new Set());
+
+  // 삭제 시 버전 충돌: 삭제 전에 본 값과 서버의 현재 값
+  const [deleteConflict, setDeleteConflict] = useState<{ seen: User; current: User } | null>(null);
+
   // toast hook (shadcn)
   const { toast } = useToast();
 
+  // 직업 선택 목록은 최초 1회만 불러옴
   useEffect(() => {
-    if (searchQuery.length >= 2) {
-      if (currentPage !== 1) {
-        setCurrentPage(1);
-        return;
-      }
-      doSearch();
-    } else {
-      doFetchRanking();
-    }
-  }, [searchQuery, currentPage]);
+    fetchJobSummary()
+      .then((data) => setJobs(data.jobs))
+      .catch((err) => console.error('Failed to fetch jobs:', err));
+  }, []);
 
-  async function doSearch() {
+  const handleError = useCallback((err: unknown) => {
+    console.error('Failed to fetch users:', err);
+    setError('Failed to load users. Please try again later.');
+    setUsers([]);
+    setTotalCount(0);
+  }, []);
+
+  // signal이 주어지면 취소된 요청(더 새로운 요청으로 대체된 요청)의 결과는 무시
+  const doSearch = useCallback(async (signal?: AbortSignal) => {
     try {
       setIsLoading(true);
       setError('');
-      const data = await searchUsers(searchQuery);
+      const data = await searchUsers(searchQuery, currentPage, pageSize, includeFormerNicknames, signal);
+      if (signal?.aborted) return;
+      setQueryError(null);
       setUsers(data.searchResults);
       setTotalCount(data.totalCount);
     } catch (err) {
+      if (signal?.aborted) return;
+      // 잘못된 질의어는 에러 화면 대신 검색창에 표시하고, 직전 결과는 그대로 둠
+      const invalidQuery = getQueryError(err);
+      if (invalidQuery) {
+        setQueryError(invalidQuery);
+        return;
+      }
       handleError(err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
-  }
+  }, [searchQuery, currentPage, includeFormerNicknames, handleError]);
 
-  async function doFetchRanking() {
+  const doFetchRanking = useCallback(async (signal?: AbortSignal) => {
     try {
       setIsLoading(true);
       setError('');
-      const data = await fetchUsers(currentPage, pageSize);
+      const data = await fetchUsers(currentPage, pageSize, {
+        job: selectedJob,
+        sortBy,
+        order,
+      }, signal);
+      if (signal?.aborted) return;
       setUsers(data.users);
       setTotalCount(data.totalCount);
     } catch (err) {
+      if (signal?.aborted) return;
       handleError(err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
+  }, [currentPage, selectedJob, sortBy, order, handleError]);
+
+  // 검색어가 2자 이상이면 검색 결과를, 아니면 랭킹을 표시
+  const isSearching = searchQuery.length >= 2;
+
+  // 검색어나 검색 결과 페이지가 바뀌면 입력이 멈춘 뒤 검색하고, 이전 요청은 취소
+  useEffect(() => {
+    if (!isSearching) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => doSearch(controller.signal), SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isSearching, doSearch]);
+
+  // 검색 중이 아닐 때 직업, 정렬, 페이지가 바뀌면 랭킹을 다시 조회하고, 이전 요청은 취소
+  useEffect(() => {
+    if (isSearching) return;
+
+    setQueryError(null);
+    const controller = new AbortController();
+    doFetchRanking(controller.signal);
+
+    return () => controller.abort();
+  }, [isSearching, doFetchRanking]);
+
+  // 검색어가 바뀌면 검색 결과(또는 랭킹)의 첫 페이지부터 조회
+  function handleSearchChange(query: string) {
+    setSearchQuery(query);
+    setCurrentPage(1);
+  }
+
+  function handleIncludeFormerNicknamesChange(checked: boolean) {
+    setIncludeFormerNicknames(checked);
+    setCurrentPage(1);
+  }
+
+  // 자동완성에서 유저를 고르면 해당 유저만 조회하고 프로필을 엶
+  function handleSuggestionSelect(suggestion: UserSuggestion) {
+    handleSearchChange(`id:${suggestion.userId}`);
+    setProfileUserId(suggestion.userId);
+  }
+
+  // 직업이 바뀌면 해당 직업 랭킹의 첫 페이지부터 조회
+  function handleJobChange(job: string) {
+    setSelectedJob(job);
+    setCurrentPage(1);
+  }
+
+  // 같은 컬럼을 다시 누르면 정렬 방향을 뒤집고, 다른 컬럼이면 내림차순부터 시작
+  function handleSort(nextSortBy: RankingSortBy) {
+    if (nextSortBy === sortBy) {
+      setOrder(order === 'desc' ? 'asc' : 'desc');
+    } else {
+      setSortBy(nextSortBy);
+      setOrder('desc');
+    }
+    setCurrentPage(1);
+  }
+
+  // 현재 보고 있는 목록(검색 결과 또는 랭킹)을 다시 불러옴
+  async function refreshList() {
+    if (isSearching) {
+      await doSearch();
+    } else {
+      await doFetchRanking();
+    }
+  }
+
+  // 새 유저를 추가하면 목록을 새로고침하고 추가된 유저의 프로필을 엶
+  async function handleUserCreated(user: User) {
+    setIsCreateOpen(false);
+    toast({
+      title: 'User created',
+      description: `User "${user.userId}" has been created.`,
+    });
+    setProfileUserId(user.userId);
+    await refreshList();
+  }
+
+  async function handleUserUpdated(user: User) {
+    toast({
+      title: 'User updated',
+      description: `User "${user.userId}" has been updated.`,
+    });
+    await refreshList();
   }
 
   // 삭제 직전 AlertDialog를 열기 위한 함수
@@ -104,39 +246,79 @@ export default function UsersClient() {
       return;
     }
 
+    // 목록에서 본 버전(updatedAt) 그대로일 때만 삭제
+    const seen = users.find((user) => user.userId === userToDelete);
+    setOpen(false);
+    setUserToDelete(null);
+    await performDelete(userToDelete, seen);
+  }
+
+  async function performDelete(userId: string, seen?: User) {
     try {
       setIsLoading(true);
-      await deleteUser(userToDelete);
+      await deleteUser(userId, seen?.updatedAt);
 
-      // 삭제 성공 시 토스트 표시
+      // 삭제 성공 시 되돌리기 버튼이 있는 토스트 표시
       toast({
         title: 'User deleted',
-        description: `User "${userToDelete}" has been deleted.`,
+        description: `User "${userId}" has been moved to the trash.`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(userId)}>
+            Undo
+          </ToastAction>
+        ),
       });
 
       // 다시 검색 혹은 순위 목록 불러오기
-      if (searchQuery.length >= 2) {
-        await doSearch();
-      } else {
-        await doFetchRanking();
+      await refreshList();
+    } catch (err) {
+      // 불러온 이후 변경된 유저는 충돌 다이얼로그로 확인
+      if (err instanceof UserConflictError && seen) {
+        setDeleteConflict({ seen, current: err.current });
+        return;
       }
+      handleError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // 삭제 토스트의 Undo: 휴지통에서 복원 후 목록 새로고침
+  async function handleUndoDelete(userId: string) {
+    try {
+      setIsLoading(true);
+      await restoreUser(userId);
+      toast({
+        title: 'User restored',
+        description: `User "${userId}" has been restored.`,
+      });
+      await refreshList();
     } catch (err) {
       handleError(err);
     } finally {
       setIsLoading(false);
-      setOpen(false);
-      setUserToDelete(null);
     }
   }
 
-  // 에러 처리
-  function handleError(err: unknown) {
-    console.error('Failed to fetch users:', err);
-    setError('Failed to load users. Please try again later.');
-    setUsers([]);
-    setTotalCount(0);
+  async function handleBulkDeleted() {
+    setSelectedUserIds(new Set());
+    await refreshList();
+  }
+
+  // 충돌 확인 후 현재 버전을 기준으로 다시 삭제
+  async function handleDeleteOverwrite() {
+    if (!deleteConflict) return;
+    const { current } = deleteConflict;
+    setDeleteConflict(null);
+    await performDelete(current.userId, current);
+  }
+
+  async function handleDeleteReload() {
+    setDeleteConflict(null);
+    await refreshList();
   }
 
+  // 에러 처리
   if (error) {
     return (
       <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -150,14 +332,46 @@ export default function UsersClient() {
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h1 className="text-sm font-medium text-white/90">유저 DB</h1>
-          {!isLoading && (
-            <span className="text-sm text-white/50 font-medium">
-              {totalCount.toLocaleString()} users
-            </span>
-          )}
+          <div className="flex items-center gap-3">
+            {!isLoading && (
+              <span className="text-sm text-white/50 font-medium">
+                {totalCount.toLocaleString()} users
+              </span>
+            )}
+            <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+              유저 추가
+            </Button>
+          </div>
         </div>
         
-        <SearchBar value={searchQuery} onChange={setSearchQuery} />
+        <div className="flex items-start gap-2">
+          <div className="flex-1">
+            <UserSuggest query={searchQuery} onSelect={handleSuggestionSelect}>
+              <SearchBar value={searchQuery} onChange={handleSearchChange} error={queryError} />
+            </UserSuggest>
+          </div>
+          <label className="flex items-center gap-2 h-9 text-xs text-white/70 whitespace-nowrap cursor-pointer">
+            <Checkbox
+              checked={includeFormerNicknames}
+              onCheckedChange={(checked) => handleIncludeFormerNicknamesChange(checked === true)}
+              className="border-white/40"
+            />
+            이전 닉네임 포함
+          </label>
+          {/* 검색 중에는 직업별 랭킹이 적용되지 않으므로 비활성화 */}
+          <JobSelect
+            jobs={jobs}
+            value={selectedJob}
+            onChange={handleJobChange}
+            disabled={isSearching}
+          />
+        </div>
+
+        <BulkActionBar
+          selectedUserIds={selectedUserIds}
+          onClearSelection={() => setSelectedUserIds(new Set())}
+          onDeleted={handleBulkDeleted}
+        />
 
         {isLoading ? (
           <div className="flex justify-center items-center h-[400px]">
@@ -174,19 +388,53 @@ export default function UsersClient() {
               pageSize={pageSize}
               // 삭제를 시도할 때 promptDeleteUser를 호출 → AlertDialog 표시
               onDeleteUser={promptDeleteUser}
-              isSearching={searchQuery.length >= 2}
+              // 행을 클릭하면 프로필 패널 표시
+              onRowClick={(user) => setProfileUserId(user.userId)}
+              // 체크박스로 여러 유저를 선택하여 일괄 작업
+              selectedUserIds={selectedUserIds}
+              onSelectionChange={setSelectedUserIds}
+              // 검색 결과는 관련도 순으로 정렬되므로 랭킹 조회 중에만 정렬 가능
+              sortBy={sortBy}
+              order={order}
+              onSort={isSearching ? undefined : handleSort}
             />
           </div>
         )}
       </div>
 
+      <UserProfileSheet
+        userId={profileUserId}
+        onOpenChange={(open) => {
+          if (!open) setProfileUserId(null);
+        }}
+        onUserUpdated={handleUserUpdated}
+      />
+
+      <ConflictDialog
+        action="delete"
+        current={deleteConflict?.current ?? null}
+        attempted={deleteConflict?.seen ?? {}}
+        onOverwrite={handleDeleteOverwrite}
+        onReload={handleDeleteReload}
+      />
+
+      {/* 유저 추가 폼 */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="bg-[#1F1F1F] border border-[#2E2E2E] text-white">
+          <DialogHeader>
+            <DialogTitle className="text-white">유저 추가</DialogTitle>
+          </DialogHeader>
+          <UserForm onSaved={handleUserCreated} onCancel={() => setIsCreateOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
       {/* 삭제 확인용 AlertDialog */}
       <AlertDialog open={open} onOpenChange={setOpen}>
         <AlertDialogContent className="bg-[#1F1F1F] border border-[#2E2E2E]">
           <AlertDialogHeader>
             <AlertDialogTitle className="text-white">유저({userToDelete})를 정말 삭제하시겠습니까?</AlertDialogTitle>
             <AlertDialogDescription className="font-semibold text-white/70">
-              이 작업은 되돌릴 수 없습니다. <br />
+              유저는 휴지통으로 이동하며, 보관 기간 안에는 복원할 수 있습니다. <br />
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
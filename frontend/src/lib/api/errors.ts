@@ -0,0 +1,80 @@
+import axios from 'axios';
+
+// 백엔드가 보내는 에러 코드 (HTTP 상태 이름(BAD_REQUEST 등)이 올 수도 있음)
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INVALID_QUERY'
+  | 'INVALID_CURSOR'
+  | 'INVALID_PRECONDITION'
+  | 'PAGE_OUT_OF_RANGE'
+  | 'BULK_LIMIT_EXCEEDED'
+  | 'USER_NOT_FOUND'
+  | 'USER_ALREADY_EXISTS'
+  | 'USER_IN_TRASH'
+  | 'USER_NOT_IN_TRASH'
+  | 'USER_VERSION_CONFLICT'
+  | 'INVALID_JOB'
+  | 'SNAPSHOTS_UNAVAILABLE'
+  | 'DUPLICATE_RECORD'
+  | 'FOREIGN_KEY_VIOLATION'
+  | 'RECORD_NOT_FOUND'
+  | 'VALUE_TOO_LONG'
+  | 'DATABASE_UNAVAILABLE'
+  | 'DATABASE_ERROR';
+
+// 모든 에러 응답의 본문 형식
+export interface ApiError {
+  statusCode: number;
+  code: ApiErrorCode | (string & {});
+  message: string;
+  // 에러별 부가 정보 (VALIDATION_FAILED의 errors, INVALID_QUERY의 position/length 등)
+  details: Record<string, unknown> | null;
+}
+
+// VALIDATION_FAILED 에러의 필드별 메시지 (field는 patch.set.level처럼 점으로 이은 경로)
+export interface ApiFieldError {
+  field: string;
+  messages: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 응답 본문이 에러 형식이면 ApiError로, 아니면 null (fetch 응답에 사용)
+export function parseApiErrorBody(body: unknown): ApiError | null {
+  if (
+    !isRecord(body) ||
+    typeof body.statusCode !== 'number' ||
+    typeof body.code !== 'string' ||
+    typeof body.message !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    statusCode: body.statusCode,
+    code: body.code,
+    message: body.message,
+    details: isRecord(body.details) ? body.details : null,
+  };
+}
+
+// axios 요청 에러에서 ApiError를 꺼냄 (응답이 없거나 에러 형식이 아니면 null)
+export function parseApiError(err: unknown): ApiError | null {
+  if (!axios.isAxiosError(err) || !err.response) {
+    return null;
+  }
+  return parseApiErrorBody(err.response.data);
+}
+
+// VALIDATION_FAILED 에러의 필드별 메시지 (다른 에러이면 빈 배열)
+export function getFieldErrors(error: ApiError): ApiFieldError[] {
+  const errors = error.code === 'VALIDATION_FAILED' ? error.details?.errors : undefined;
+  if (!Array.isArray(errors)) {
+    return [];
+  }
+  return errors.filter(
+    (item): item is ApiFieldError =>
+      isRecord(item) && typeof item.field === 'string' && Array.isArray(item.messages)
+  );
+}
@@ -1,29 +1,168 @@
 import axios from 'axios';
+import { parseApiError, parseApiErrorBody } from '@/lib/api/errors';
+import { BulkDeletePreview, BulkDeleteResult, BulkSelection, Job, QueryError, RankingSortBy, SortOrder, User, UserPayload, UserProgress } from '@/types/user';
 
 const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
 
-export async function fetchUsers(page: number, pageSize: number) {
+// 불러온 이후 다른 요청(다른 운영자, 임포트 등)이 유저를 변경하여 쓰기가 거부된 경우 (409)
+export class UserConflictError extends Error {
+  constructor(public readonly current: User) {
+    super(`User "${current.userId}" has been modified since it was loaded`);
+    this.name = 'UserConflictError';
+  }
+}
+
+interface FetchUsersOptions {
+  job?: string;
+  sortBy?: RankingSortBy;
+  order?: SortOrder;
+}
+
+export async function fetchUsers(page: number, pageSize: number, options: FetchUsersOptions = {}, signal?: AbortSignal) {
   const response = await axios.get(`${baseUrl}/api/users/ranked`, {
-    params: { page, pageSize },
+    params: {
+      page,
+      pageSize,
+      job: options.job || undefined,
+      sortBy: options.sortBy,
+      order: options.order,
+    },
+    headers: { 'Accept': 'application/json' },
+    signal,
+  });
+  return response.data;
+}
+
+export async function fetchJobSummary() {
+  const response = await axios.get(`${baseUrl}/api/rankings/jobs`, {
+    headers: { 'Accept': 'application/json' }
+  });
+  return response.data;
+}
+
+export async function fetchJobs(): Promise<Job[]> {
+  const response = await axios.get(`${baseUrl}/api/jobs`, {
     headers: { 'Accept': 'application/json' }
   });
   return response.data;
 }
 
-export async function searchUsers(keyword: string) {
+// 검색창 입력값을 질의어(q)로 전달 (예: level:>200 job:히어로 -nick:foo)
+// includeFormerNicknames이면 이전 닉네임도 검색 (결과의 formerNickname에 일치한 이전 닉네임)
+export async function searchUsers(query: string, page: number, pageSize: number, includeFormerNicknames = false, signal?: AbortSignal) {
   const response = await axios.get(`${baseUrl}/api/users/search`, {
-    params: { keyword },
+    params: { q: query, page, pageSize, includeFormerNicknames },
+    headers: { 'Accept': 'application/json' },
+    signal,
+  });
+  return response.data;
+}
+
+// 검색창 자동완성 (userId/닉네임 접두 일치 상위 10명)
+export async function suggestUsers(query: string, signal?: AbortSignal) {
+  const response = await axios.get(`${baseUrl}/api/users/suggest`, {
+    params: { q: query },
+    headers: { 'Accept': 'application/json' },
+    signal,
+  });
+  return response.data;
+}
+
+// 검색 요청이 잘못된 질의어나 검색 조건으로 거부된 경우(400) 에러 내용을 반환하고, 그 외에는 null
+export function getQueryError(err: unknown): QueryError | null {
+  const apiError = parseApiError(err);
+  if (!apiError || apiError.statusCode !== 400) {
+    return null;
+  }
+  // INVALID_QUERY이면 details에 문제가 된 부분의 위치가 담김
+  const { position, length } = apiError.details ?? {};
+  return {
+    message: apiError.message,
+    position: typeof position === 'number' ? position : undefined,
+    length: typeof length === 'number' ? length : undefined,
+  };
+}
+
+export async function fetchUserDetail(userId: string) {
+  const response = await axios.get(`${baseUrl}/api/users/${encodeURIComponent(userId)}`, {
+    headers: { 'Accept': 'application/json' }
+  });
+  return response.data;
+}
+
+export async function fetchUserProgress(userId: string, limit?: number): Promise<UserProgress> {
+  const response = await axios.get(`${baseUrl}/api/users/${encodeURIComponent(userId)}/progress`, {
+    params: { limit },
+    headers: { 'Accept': 'application/json' }
+  });
+  return response.data;
+}
+
+export async function createUser(payload: UserPayload) {
+  const response = await axios.post(`${baseUrl}/api/users`, payload, {
     headers: { 'Accept': 'application/json' }
   });
   return response.data;
 }
 
-export async function deleteUser(userId: string) {
-  const res = await fetch(`/api/users/${userId}`, {
+// expectedUpdatedAt은 수정 전에 본 유저의 updatedAt (다르면 UserConflictError)
+export async function updateUser(
+  userId: string,
+  payload: Omit<UserPayload, 'userId'>,
+  expectedUpdatedAt?: string
+) {
+  try {
+    const response = await axios.patch(`${baseUrl}/api/users/${encodeURIComponent(userId)}`, payload, {
+      params: { expectedUpdatedAt },
+      headers: { 'Accept': 'application/json' }
+    });
+    return response.data;
+  } catch (err) {
+    const apiError = parseApiError(err);
+    if (apiError?.code === 'USER_VERSION_CONFLICT' && apiError.details?.current) {
+      throw new UserConflictError(apiError.details.current as User);
+    }
+    throw err;
+  }
+}
+
+// 유저를 휴지통으로 이동 (restoreUser로 복원 가능)
+// expectedUpdatedAt은 삭제 전에 본 유저의 updatedAt (다르면 UserConflictError)
+export async function deleteUser(userId: string, expectedUpdatedAt?: string) {
+  const query = expectedUpdatedAt ? `?${new URLSearchParams({ expectedUpdatedAt })}` : '';
+  const res = await fetch(`/api/users/${userId}${query}`, {
     method: 'DELETE',
   });
   if (!res.ok) {
-    throw new Error(`Failed to delete user: ${res.statusText}`);
+    const apiError = parseApiErrorBody(await res.json().catch(() => null));
+    if (apiError?.code === 'USER_VERSION_CONFLICT' && apiError.details?.current) {
+      throw new UserConflictError(apiError.details.current as User);
+    }
+    throw new Error(`Failed to delete user: ${apiError?.message ?? res.statusText}`);
   }
   return res.json();
-} 
\ No newline at end of file
+}
+
+// 휴지통으로 이동한 유저를 복원
+export async function restoreUser(userId: string) {
+  const response = await axios.post(`${baseUrl}/api/users/${encodeURIComponent(userId)}/restore`, null, {
+    headers: { 'Accept': 'application/json' }
+  });
+  return response.data;
+}
+
+// 일괄 삭제 시 삭제될 유저 수와 일부 목록을 미리 조회 (실제로 삭제하지 않음)
+export async function previewBulkDeleteUsers(selection: BulkSelection): Promise<BulkDeletePreview> {
+  const response = await axios.post(`${baseUrl}/api/users/bulk-delete`, { ...selection, dryRun: true }, {
+    headers: { 'Accept': 'application/json' }
+  });
+  return response.data;
+}
+
+// 선택한 유저를 한 번에 휴지통으로 이동
+export async function bulkDeleteUsers(selection: BulkSelection): Promise<BulkDeleteResult> {
+  const response = await axios.post(`${baseUrl}/api/users/bulk-delete`, selection, {
+    headers: { 'Accept': 'application/json' }
+  });
+  return response.data;
+}
@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// 정수를 천 단위로 구분해 표시 (meso, exp는 2^53을 넘을 수 있어 문자열로 오므로 BigInt로 변환해 정확히 표시)
+export function formatInteger(value: string | number | null | undefined) {
+  if (value === null || value === undefined || value === "") return undefined
+  return typeof value === "string" ? BigInt(value).toLocaleString() : value.toLocaleString()
+}
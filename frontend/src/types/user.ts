@@ -4,16 +4,120 @@ export interface User {
   level: number;
   job: string;
   jobCode: string;
-  meso: number;
+  // meso, exp는 BIGINT 컬럼이라 정밀도를 잃지 않도록 정수 문자열로 주고받음
+  meso: string | null;
   playTime: string;
-  exp: number;
+  exp: string | null;
   createdAt: string;
   updatedAt: string;
+  rank?: number;
+  // 다음 레벨까지의 필요 경험치(exp와 같은 정수 문자열)와 진행률(%, 100 이상이면 레벨에 비해 불가능한 경험치) - 랭킹/상세 조회에만 포함
+  requiredExp?: string | null;
+  expPercent?: number | null;
+  // 이전 닉네임 검색 시 검색어와 일치한 이전 닉네임
+  formerNickname?: string | null;
 }
 
+// 유저 생성/수정 요청 본문 (POST /users, PATCH /users/:userId)
+export interface UserPayload {
+  userId?: string;
+  nickname: string;
+  level: number;
+  job: string | null;
+  jobCode: number | null;
+  meso: string | null;
+  exp: string | null;
+  playTime: number | null;
+}
+
+// 유저 상세 (GET /users/:userId)
+export interface UserDetail extends Omit<User, 'rank'> {
+  globalRank: number;
+  jobRank: number | null;
+  accountAgeDays: number;
+  // 이전 닉네임 (최근 변경순)
+  formerNicknames: { nickname: string; changedAt: string }[];
+}
+
+// 진행 이력의 한 시점 (level, exp, meso, playTime 중 하나라도 바뀔 때마다 기록)
+export interface UserProgressPoint {
+  recordedAt: string;
+  level: number;
+  exp: string | null;
+  meso: string | null;
+  playTime: number | null;
+}
+
+// 유저 진행 이력 (GET /users/:userId/progress, 오래된 순)
+export interface UserProgress {
+  userId: string;
+  points: UserProgressPoint[];
+}
+
+// 직업 목록의 한 항목 (User.jobCode는 code, User.job은 nameKo와 일치해야 함)
+export interface Job {
+  code: number;
+  nameKo: string;
+  nameEn: string;
+  // 직업 계열 (0 초보자, 1 전사, 2 궁수, 3 마법사, 4 도적, 5 해적)
+  branch: number;
+  // 전직 차수 (0 초보자, 1~4차)
+  tier: number;
+}
+
+export interface JobSummary {
+  job: string;
+  jobCode: number | null;
+  playerCount: number;
+  topUser: Pick<User, 'userId' | 'nickname' | 'level' | 'exp'>;
+}
+
+export interface UserSuggestion {
+  userId: string;
+  nickname: string;
+  level: number;
+  job: string | null;
+  matchedOn: 'userId' | 'nickname';
+}
+
+// 검색 질의어 파싱 에러 (position, length는 입력값에서 문제가 된 부분)
+export interface QueryError {
+  message: string;
+  position?: number;
+  length?: number;
+}
+
+// 일괄 작업 대상 선택 (userIds와 filter 중 하나, filter는 랭킹 API의 필터 파라미터와 같은 형식)
+export interface BulkSelection {
+  userIds?: string[];
+  filter?: Record<string, string | number>;
+}
+
+// 일괄 삭제 미리보기 (POST /users/bulk-delete, dryRun: true)
+export interface BulkDeletePreview {
+  dryRun: true;
+  affectedCount: number;
+  sample: User[];
+  notFoundUserIds?: string[];
+}
+
+// 일괄 삭제 결과 (POST /users/bulk-delete)
+export interface BulkDeleteResult {
+  dryRun: false;
+  deletedCount: number;
+  deletedAt: string;
+  notFoundUserIds?: string[];
+}
+
+export type RankingSortBy = 'level' | 'meso' | 'playTime';
+
+export type SortOrder = 'asc' | 'desc';
+
 export interface Column {
   key: keyof User | 'action';
   label: string;
   sortable?: boolean;
+  // 서버 정렬 기준 (sortable 컬럼 클릭 시 이 기준으로 재정렬)
+  sortKey?: RankingSortBy;
   width?: string;
 } 
\ No newline at end of file